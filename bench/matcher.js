@@ -0,0 +1,34 @@
+import { createTypeMatcher, typeIs } from '../dist/index.js';
+
+const ITERATIONS = 1_000_000;
+const acceptable = ['json', 'urlencoded', 'multipart', '+json', 'text/*'];
+const headers = [
+  { 'content-type': 'application/json; charset=utf-8', 'content-length': '10' },
+  { 'content-type': 'application/x-www-form-urlencoded', 'content-length': '10' },
+  { 'content-type': 'application/vnd.api+json', 'content-length': '10' },
+  { 'content-type': 'image/png', 'content-length': '10' },
+];
+
+function bench(name, fn) {
+  // warm up
+  for (let i = 0; i < ITERATIONS / 10; i++) {
+    fn(headers[i % headers.length]);
+  }
+
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < ITERATIONS; i++) {
+    fn(headers[i % headers.length]);
+  }
+  const ms = Number(process.hrtime.bigint() - start) / 1e6;
+  const ops = Math.round(ITERATIONS / (ms / 1000));
+  console.log(`${name.padEnd(20)} ${ops.toLocaleString('en-US').padStart(12)} ops/sec`);
+
+  return ops;
+}
+
+const matcher = createTypeMatcher(acceptable);
+
+const typeIsOps = bench('typeIs()', (h) => typeIs(h, acceptable));
+const matcherOps = bench('createTypeMatcher()', (h) => matcher(h));
+
+console.log(`createTypeMatcher() is ${(matcherOps / typeIsOps).toFixed(1)}x faster`);
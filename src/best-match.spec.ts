@@ -0,0 +1,108 @@
+import { IncomingHttpHeaders } from 'http';
+import { bestMatch } from './best-match.js';
+import { parseMediaType } from './media-type.js';
+import { TypeRegistry } from './registry.js';
+
+describe('bestMatch(input, acceptable, options)', function () {
+  it('should prefer the exact type to a suffix', function () {
+    expect(bestMatch('application/vnd.api+json', ['+json', 'application/vnd.api+json'])).toMatchObject({
+      value: 'application/vnd.api+json',
+      pattern: 'application/vnd.api+json',
+      index: 1,
+      specificity: 'exact',
+    });
+  });
+
+  it('should rank by specificity', function () {
+    const acceptable = ['*/*', 'application/*', '+json', 'jsonapi', 'jsonapi; charset=utf-8'];
+    const type = 'application/vnd.api+json; charset=utf-8';
+    const registry = new TypeRegistry({ shorthands: { jsonapi: 'application/vnd.api+json' } });
+
+    expect(bestMatch(type, acceptable, { registry })).toMatchObject({ index: 4, specificity: 'exact', value: type });
+    expect(bestMatch(type, acceptable.slice(0, 4), { registry })).toMatchObject({
+      index: 3,
+      specificity: 'exact',
+      value: 'jsonapi',
+    });
+    expect(bestMatch(type, acceptable.slice(0, 3))).toMatchObject({
+      index: 2,
+      specificity: 'suffix',
+      value: 'application/vnd.api+json',
+    });
+    expect(bestMatch(type, acceptable.slice(0, 2))).toMatchObject({ index: 1, specificity: 'wildcard' });
+    expect(bestMatch(type, acceptable.slice(0, 1))).toMatchObject({ index: 0, specificity: 'any' });
+  });
+
+  it('should prefer parameters within the same level', function () {
+    expect(bestMatch('text/html; charset=utf-8', ['text/*', 'text/*; charset=utf-8'])).toMatchObject({ index: 1 });
+  });
+
+  it('should prefer the first of equally specific types', function () {
+    expect(bestMatch('text/html', ['html', 'text/html'])).toMatchObject({ index: 0, value: 'html' });
+  });
+
+  it('should return false when nothing matches', function () {
+    expect(bestMatch('text/html', ['json', 'bogus', 'text/*; charset=utf-8'])).toBe(false);
+    expect(bestMatch('invalid', ['*/*'])).toBe(false);
+    expect(bestMatch(null, ['*/*'])).toBe(false);
+  });
+
+  it('should return the actual type without acceptable types or with only exclusions', function () {
+    const expected = { value: 'text/plain', pattern: null, index: -1, specificity: 'any' };
+    expect(bestMatch('text/plain; charset=utf-8', [])).toMatchObject(expected);
+    expect(bestMatch('text/plain', ['!text/html'])).toMatchObject(expected);
+    expect(bestMatch('text/html', ['!text/html'])).toBe(false);
+    expect(bestMatch('invalid', [])).toBe(false);
+  });
+
+  it('should accept a MediaType', function () {
+    expect(bestMatch(parseMediaType('text/html'), ['text/*'])).toMatchObject({ value: 'text/html' });
+  });
+
+  it('should validate and rebuild MediaType objects made by hand', function () {
+    const plain = { type: 'text', subtype: 'plain', parameters: { charset: 'utf-8' } } as any;
+
+    expect(bestMatch(plain, ['text/plain'], { charsets: ['utf-8'] })).toMatchObject({ value: 'text/plain' });
+    expect(bestMatch(plain, ['text/plain; charset=utf-8'])).toMatchObject({ value: 'text/plain; charset=utf-8' });
+    expect(bestMatch({ type: 'Text', subtype: 'Plain' } as any, ['text/*'])).toMatchObject({ value: 'text/plain' });
+    expect(bestMatch({ type: 'te xt', subtype: 'x' } as any, ['*/*'])).toBe(false);
+  });
+
+  it('should accept headers', function () {
+    expect(bestMatch(createHeaders('text/html'), ['*/*', 'html'])).toMatchObject({ index: 1 });
+    expect(bestMatch({ 'content-type': 'text/html' }, ['html'])).toBeNull();
+    expect(bestMatch(createHeaders(), ['html'])).toBe(false);
+  });
+
+  it('should support extended patterns', function () {
+    const type = 'application/vnd.myco.item+json';
+    expect(bestMatch(type, ['*/*', 'application/vnd.myco.*', 'application/{json,vnd.myco.item+json}'])).toMatchObject({
+      index: 2,
+      specificity: 'exact',
+      value: type,
+    });
+    expect(bestMatch(type, ['application/*', 'application/vnd.myco.*'])).toMatchObject({
+      index: 1,
+      specificity: 'suffix',
+    });
+    expect(bestMatch(type, ['application/*', '!application/vnd.myco.*'])).toBe(false);
+  });
+
+  it('should respect options', function () {
+    const registry = new TypeRegistry({ aliases: { 'application/x-json': 'application/json' } });
+    expect(bestMatch('application/x-json', ['+json', 'json'], { registry })).toMatchObject({ index: 1 });
+    expect(bestMatch('text/html; charset=latin1', ['html'], { charsets: ['utf-8'] })).toBe(false);
+    expect(bestMatch('application/problem+json', ['*/*', 'json'], { structuredSuffixes: true })).toMatchObject({
+      index: 1,
+      specificity: 'suffix',
+      value: 'json',
+    });
+  });
+});
+
+function createHeaders(type?: string) {
+  return {
+    'content-type': type || undefined,
+    'transfer-encoding': 'chunked',
+  } as IncomingHttpHeaders;
+}
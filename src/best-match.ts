@@ -0,0 +1,212 @@
+import { isObserved, observeIs, observeTypeIs } from './diagnostics.js';
+import { unsupportedEncodings } from './encoding.js';
+import { HeadersInput } from './headers.js';
+import { MediaType, essenceOf, isMediaType, parseMediaType, toMediaType } from './media-type.js';
+import { isNegated, tryExpandPattern } from './pattern.js';
+import { defaultRegistry } from './registry.js';
+import { matchBaseFormat } from './suffix.js';
+import {
+  TypeIsOptions,
+  checkOptions,
+  getContentType,
+  hasBody,
+  isExcluded,
+  matchedValue,
+  mimeMatch,
+  parseContentType,
+} from './type-is.js';
+
+/**
+ * How specific an acceptable type is, from the most specific to the least one:
+ *
+ * - `exact` - a type and subtype such as `application/json` or `json`;
+ * - `suffix` - a suffix or a partial wildcard such as `+json`, `application/*+json` or
+ *   `application/vnd.myco.*`, or a base format match with the `structuredSuffixes` option;
+ * - `wildcard` - a subtype or type wildcard such as `application/*` or `* /json`;
+ * - `any` - `* /*`.
+ *
+ * Within the same level, a type with parameters is more specific than the one without them.
+ */
+export type Specificity = 'exact' | 'suffix' | 'wildcard' | 'any';
+
+export interface BestMatch {
+  /**
+   * The same value that `is()` returns for the `pattern`.
+   */
+  value: string;
+  /**
+   * The acceptable type that matched, or `null` if no acceptable types or only exclusions were given.
+   */
+  pattern: string | null;
+  /**
+   * The index of the `pattern` in the acceptable types, or `-1` if the `pattern` is `null`.
+   */
+  index: number;
+  specificity: Specificity;
+  mediaType: MediaType;
+}
+
+const ranks: Record<Specificity, number> = { exact: 3, suffix: 2, wildcard: 1, any: 0 };
+
+/**
+ * Works the same as `is()`, but instead of the first acceptable type that matches, returns the most
+ * specific one: an exact type with parameters, then an exact type, then a suffix, then a wildcard and
+ * then `* /*`. Among equally specific types the first one wins. Exclusions such as `!text/html` apply
+ * the same as for `is()`, and with no acceptable types or only exclusions the actual type matches with
+ * the `null` pattern and the `any` specificity. If `headers` are given, it works the same as `typeIs()` and returns `null`
+ * for a request without a body.
+ *
+```ts
+is('application/vnd.api+json', ['+json', 'application/vnd.api+json']); // => 'application/vnd.api+json', matched by '+json'
+
+bestMatch('application/vnd.api+json', ['+json', 'application/vnd.api+json']);
+// => { value: 'application/vnd.api+json', pattern: 'application/vnd.api+json', index: 1, specificity: 'exact', ... }
+```
+ */
+export function bestMatch(
+  input: HeadersInput | MediaType | string | null | undefined,
+  acceptable: string[],
+  options: TypeIsOptions = {},
+): BestMatch | false | null {
+  const best = findBestMatch(input, acceptable, options);
+  if (isObserved(options)) {
+    const value = best && best.value;
+    if (isMediaType(input) || !input || typeof input != 'object') {
+      observeIs(input, acceptable, value as string | false, options, 'bestMatch');
+    } else {
+      observeTypeIs(input, acceptable, value, options, 'bestMatch');
+    }
+  }
+  return best;
+}
+
+function findBestMatch(
+  input: HeadersInput | MediaType | string | null | undefined,
+  acceptable: string[],
+  options: TypeIsOptions,
+): BestMatch | false | null {
+  let value: string | MediaType | undefined | null;
+  if (isMediaType(input) || !input || typeof input != 'object') {
+    value = input;
+  } else if (!hasBody(input)) {
+    return null;
+  } else if (options.encodings && unsupportedEncodings(input, options.encodings).length) {
+    // unsupported content coding
+    return false;
+  } else {
+    const contentType = getContentType(input, options);
+    if (contentType === false) {
+      // ambiguous content type
+      return false;
+    }
+    value = contentType;
+  }
+
+  let mediaType: MediaType;
+  try {
+    if (!value) {
+      return false;
+    }
+    if (isMediaType(value)) {
+      mediaType = toMediaType(value);
+    } else {
+      const parsed = parseContentType(value, options);
+      if (parsed.repairs.length) {
+        options.onRepair?.(value, parsed.repairs);
+      }
+      mediaType = parsed.mediaType;
+    }
+  } catch {
+    return false;
+  }
+
+  const registry = options.registry || defaultRegistry;
+
+  // resolve aliases
+  mediaType = registry.resolve(mediaType);
+
+  // rejected by options
+  if (checkOptions(mediaType, options)) {
+    return false;
+  }
+
+  // exclusions apply to any match
+  if (isExcluded(acceptable, mediaType, options)) {
+    return false;
+  }
+
+  // no types or only exclusions, so the actual type matches
+  if (acceptable.every(isNegated)) {
+    return { value: essenceOf(mediaType), pattern: null, index: -1, specificity: 'any', mediaType };
+  }
+
+  let best: BestMatch | null = null;
+  let bestRank = -1;
+
+  for (let index = 0; index < acceptable.length; index++) {
+    const pattern = acceptable[index];
+    if (isNegated(pattern)) {
+      continue;
+    }
+
+    const specificity = specificityOf(pattern, mediaType, options);
+    if (!specificity) {
+      continue;
+    }
+
+    // parameters make a type more specific within its level
+    const rank = ranks[specificity] * 2 + (pattern.indexOf(';') === -1 ? 0 : 1);
+    if (rank > bestRank) {
+      best = { value: matchedValue(pattern, mediaType), pattern, index, specificity, mediaType };
+      bestRank = rank;
+    }
+  }
+
+  return best || false;
+}
+
+/**
+ * Returns how specific the `pattern` is if it matches the `mediaType`, or `null` if it does not match.
+ * For alternatives such as `application/{json,xml}`, the most specific alternative that matches counts.
+ */
+function specificityOf(pattern: string, mediaType: MediaType, options: TypeIsOptions): Specificity | null {
+  let best: Specificity | null = null;
+  for (const alternative of tryExpandPattern(pattern)) {
+    const specificity = specificityOfAlternative(alternative, mediaType, options);
+    if (specificity && (!best || ranks[specificity] > ranks[best])) {
+      best = specificity;
+    }
+  }
+  return best;
+}
+
+function specificityOfAlternative(pattern: string, mediaType: MediaType, options: TypeIsOptions): Specificity | null {
+  const registry = options.registry || defaultRegistry;
+  const normalized = registry.normalize(pattern);
+
+  let expected: MediaType | null = null;
+  try {
+    expected = normalized ? parseMediaType(normalized) : null;
+  } catch {
+    // invalid pattern
+  }
+
+  if (expected && mimeMatch(expected, mediaType)) {
+    if (expected.subtype != '*' && expected.subtype.indexOf('*') !== -1) {
+      return 'suffix';
+    }
+    if (expected.type == '*' && expected.subtype == '*') {
+      return 'any';
+    }
+    if (expected.type == '*' || expected.subtype == '*') {
+      return 'wildcard';
+    }
+    return 'exact';
+  }
+
+  if (options.structuredSuffixes && matchBaseFormat(pattern, mediaType, registry)) {
+    return 'suffix';
+  }
+
+  return null;
+}
@@ -0,0 +1,20 @@
+#!/usr/bin/env node
+import { readFile } from 'node:fs/promises';
+
+import { runCli } from './cli.js';
+
+process.exitCode = await runCli(process.argv.slice(2), {
+  stdout: (text) => process.stdout.write(text + '\n'),
+  stderr: (text) => process.stderr.write(text + '\n'),
+  readFile: (path) => readFile(path, 'utf8'),
+  async readStdin() {
+    if (process.stdin.isTTY) {
+      throw new TypeError('No input, give --type, --file or pipe an HTTP head');
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  },
+});
@@ -0,0 +1,175 @@
+import { detectBody } from './body.js';
+import { hasBody } from './type-is.js';
+
+describe('detectBody(headers)', function () {
+  it('should detect no body', function () {
+    expect(detectBody({})).toEqual({ status: 'no-body' });
+    expect(detectBody({ 'content-type': 'text/plain' })).toEqual({ status: 'no-body' });
+  });
+
+  describe('content-length', function () {
+    it('should return the length', function () {
+      expect(detectBody({ 'content-length': '10' })).toEqual({ status: 'length', length: 10 });
+      expect(detectBody({ 'content-length': '0' })).toEqual({ status: 'length', length: 0 });
+      expect(detectBody({ 'content-length': 42 })).toEqual({ status: 'length', length: 42 });
+    });
+
+    it('should accept identical duplicates', function () {
+      expect(detectBody({ 'content-length': '5, 5' })).toEqual({ status: 'length', length: 5 });
+      expect(
+        detectBody([
+          ['Content-Length', '5'],
+          ['Content-Length', '5'],
+        ]),
+      ).toEqual({ status: 'length', length: 5 });
+    });
+
+    it('should reject invalid syntax', function () {
+      for (const value of ['-5', '1e3', ' 10', '10 ', '0x10', '1.5', '', 'bogus', '99999999999999999999']) {
+        expect(detectBody({ 'content-length': value })).toEqual({
+          status: 'invalid',
+          reason: 'invalid-content-length',
+        });
+      }
+    });
+
+    it('should reject different duplicates', function () {
+      expect(detectBody({ 'content-length': '5, 6' })).toEqual({
+        status: 'invalid',
+        reason: 'conflicting-content-length',
+      });
+      expect(
+        detectBody(
+          new Headers([
+            ['content-length', '5'],
+            ['content-length', '6'],
+          ]),
+        ),
+      ).toEqual({
+        status: 'invalid',
+        reason: 'conflicting-content-length',
+      });
+    });
+  });
+
+  describe('transfer-encoding', function () {
+    it('should detect a body of unknown length', function () {
+      expect(detectBody({ 'transfer-encoding': 'chunked' })).toEqual({
+        status: 'has-body',
+        transferEncoding: ['chunked'],
+      });
+      expect(detectBody({ 'transfer-encoding': 'GZIP, Chunked' })).toEqual({
+        status: 'has-body',
+        transferEncoding: ['gzip', 'chunked'],
+      });
+    });
+
+    it('should require chunked to be final', function () {
+      for (const value of ['gzip', 'chunked, gzip', 'chunked, chunked', 'identity']) {
+        expect(detectBody({ 'transfer-encoding': value })).toEqual({ status: 'invalid', reason: 'chunked-not-final' });
+      }
+    });
+
+    it('should reject malformed lists', function () {
+      expect(detectBody({ 'transfer-encoding': 'gzip,,chunked' })).toEqual({
+        status: 'invalid',
+        reason: 'invalid-transfer-encoding',
+      });
+      expect(detectBody({ 'transfer-encoding': '' })).toEqual({
+        status: 'invalid',
+        reason: 'invalid-transfer-encoding',
+      });
+    });
+
+    it('should reject content-length along with transfer-encoding', function () {
+      expect(detectBody({ 'transfer-encoding': 'chunked', 'content-length': '10' })).toEqual({
+        status: 'invalid',
+        reason: 'conflicting-headers',
+      });
+    });
+  });
+
+  describe('method', function () {
+    it('should reject a body of TRACE', function () {
+      expect(detectBody({ 'content-length': '1' }, { method: 'trace' })).toEqual({
+        status: 'invalid',
+        reason: 'body-not-allowed',
+      });
+      expect(detectBody({}, { method: 'TRACE' })).toEqual({ status: 'no-body' });
+    });
+
+    it('should reject unexpected bodies on demand', function () {
+      const headers = { 'content-length': '1' };
+      expect(detectBody(headers, { method: 'GET' })).toEqual({ status: 'length', length: 1 });
+      expect(detectBody(headers, { method: 'GET', rejectUnexpectedBody: true })).toEqual({
+        status: 'invalid',
+        reason: 'body-not-allowed',
+      });
+      expect(detectBody(headers, { method: 'POST', rejectUnexpectedBody: true })).toEqual({
+        status: 'length',
+        length: 1,
+      });
+    });
+  });
+
+  describe('Fetch API', function () {
+    it('should use body of Request', function () {
+      const request = new Request('http://localhost/', { method: 'POST', body: 'abc' });
+      expect(detectBody(request)).toMatchObject({ status: expect.stringMatching(/^(length|has-body)$/) });
+      expect(detectBody(new Request('http://localhost/'))).toEqual({ status: 'no-body' });
+    });
+  });
+
+  describe('HTTP/2', function () {
+    it('should use content-length', function () {
+      expect(detectBody({ ':method': 'POST', 'content-length': '3' })).toEqual({ status: 'length', length: 3 });
+      expect(detectBody({ ':method': 'POST', 'content-length': 'abc' })).toEqual({
+        status: 'invalid',
+        reason: 'invalid-content-length',
+      });
+    });
+
+    it('should reject transfer-encoding', function () {
+      expect(detectBody({ ':method': 'POST', 'transfer-encoding': 'chunked' })).toEqual({
+        status: 'invalid',
+        reason: 'invalid-transfer-encoding',
+      });
+    });
+
+    it('should use the END_STREAM flag', function () {
+      const headers = { ':method': 'POST', 'content-type': 'text/plain' };
+      expect(detectBody({ headers, stream: { endAfterHeaders: true } })).toEqual({ status: 'no-body' });
+      expect(detectBody({ headers, stream: { endAfterHeaders: false } })).toEqual({
+        status: 'has-body',
+        transferEncoding: [],
+      });
+      expect(detectBody({ headers: { ':method': 'GET' }, stream: { endAfterHeaders: false } })).toEqual({
+        status: 'has-body',
+        transferEncoding: [],
+      });
+    });
+
+    it('should use the method without other hints', function () {
+      expect(detectBody({ ':method': 'POST' })).toEqual({ status: 'has-body', transferEncoding: [] });
+      expect(detectBody({ ':method': 'GET' })).toEqual({ status: 'no-body' });
+      expect(detectBody({ ':method': 'TRACE' })).toEqual({ status: 'no-body' });
+    });
+
+    it('should use :method as the default method', function () {
+      const headers = { ':method': 'GET', 'content-length': '1' };
+      expect(detectBody(headers, { rejectUnexpectedBody: true })).toEqual({
+        status: 'invalid',
+        reason: 'body-not-allowed',
+      });
+      expect(detectBody(headers, { method: 'POST', rejectUnexpectedBody: true })).toEqual({
+        status: 'length',
+        length: 1,
+      });
+    });
+  });
+
+  it('should not change hasBody()', function () {
+    expect(hasBody({ 'content-length': '-5' })).toBe(true);
+    expect(hasBody({ 'transfer-encoding': 'gzip' })).toBe(true);
+  });
+});
@@ -0,0 +1,211 @@
+import { HeadersInput, getFetchBody, getHeader, getStreamEnded, splitHeaderList } from './headers.js';
+
+/**
+ * Why `detectBody()` considers the framing of a body invalid:
+ *
+ * - `conflicting-headers` - both `Transfer-Encoding` and `Content-Length` are present,
+ *   which is a common way to smuggle requests;
+ * - `invalid-transfer-encoding` - the `Transfer-Encoding` list is malformed, or it is sent over HTTP/2;
+ * - `chunked-not-final` - `chunked` is not the final transfer coding, or it is applied more than once;
+ * - `invalid-content-length` - the `Content-Length` is not a non-negative decimal integer;
+ * - `conflicting-content-length` - the `Content-Length` has several different values;
+ * - `body-not-allowed` - the request method does not allow a body.
+ */
+export type BodyInvalidReason =
+  | 'conflicting-headers'
+  | 'invalid-transfer-encoding'
+  | 'chunked-not-final'
+  | 'invalid-content-length'
+  | 'conflicting-content-length'
+  | 'body-not-allowed';
+
+export interface NoBody {
+  status: 'no-body';
+}
+
+/**
+ * The body is sent with a transfer coding, so its length is not known in advance.
+ */
+export interface ChunkedBody {
+  status: 'has-body';
+  transferEncoding: string[];
+}
+
+export interface FixedLengthBody {
+  status: 'length';
+  length: number;
+}
+
+export interface InvalidBody {
+  status: 'invalid';
+  reason: BodyInvalidReason;
+}
+
+/**
+ * The result of `detectBody()`, use `status` to tell the cases apart.
+ */
+export type BodyInfo = NoBody | ChunkedBody | FixedLengthBody | InvalidBody;
+
+export interface DetectBodyOptions {
+  /**
+   * The request method. A `TRACE` request with a body is always invalid. Defaults to the `:method`
+   * pseudo-header of HTTP/2 requests.
+   */
+  method?: string;
+  /**
+   * If `true`, a body of a request whose method defines no semantics for it (`GET`, `HEAD`,
+   * `DELETE`, `CONNECT` and `OPTIONS`) is considered invalid. Defaults to `false`.
+   */
+  rejectUnexpectedBody?: boolean;
+}
+
+const DIGITS_REGEXP = /^\d+$/;
+
+/**
+ * Methods that define no semantics for a request body, see
+ * [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110#section-9.3).
+ */
+const methodsWithoutBody = ['GET', 'HEAD', 'DELETE', 'CONNECT', 'OPTIONS'];
+
+/**
+ * Methods of HTTP/2 requests that are not expected to have a body when neither `Content-Length`
+ * nor the `END_STREAM` flag tells whether there is one.
+ */
+const http2MethodsWithoutBody = [...methodsWithoutBody, 'TRACE'];
+
+/**
+ * Detects whether the request with the `headers` has a body, following the message body length rules of
+ * [RFC 9112](https://www.rfc-editor.org/rfc/rfc9112#section-6.3). Unlike `hasBody()`, it validates the
+ * `Content-Length` syntax, checks that `chunked` is the final transfer coding, and reports conflicting
+ * headers that can be used for request smuggling. A request with an invalid framing should be rejected
+ * with 400 Bad Request and the connection closed.
+ *
+```ts
+detectBody({ 'content-length': '10' }); // => { status: 'length', length: 10 }
+detectBody({ 'transfer-encoding': 'gzip, chunked' }); // => { status: 'has-body', transferEncoding: ['gzip', 'chunked'] }
+detectBody({ 'content-length': '5, 6' }); // => { status: 'invalid', reason: 'conflicting-content-length' }
+detectBody({}); // => { status: 'no-body' }
+```
+ *
+ * HTTP/2 requests are told by the `:method` pseudo-header. Their body is sent in DATA frames, so
+ * `Content-Length` is optional and `Transfer-Encoding` is not allowed. If the request comes with its
+ * `stream` (see `MessageLike`), the `END_STREAM` flag of the HEADERS frame tells whether there is a body.
+ * Otherwise, a request without `Content-Length` is expected to have a body unless its method defines
+ * no semantics for it.
+ */
+export function detectBody(headers: HeadersInput, options: DetectBodyOptions = {}): BodyInfo {
+  const info = detectFraming(headers);
+  if (info.status == 'no-body' || info.status == 'invalid') {
+    return info;
+  }
+
+  const method = (options.method ?? getHeader(headers, ':method'))?.toUpperCase();
+  if (method == 'TRACE' || (options.rejectUnexpectedBody && method && methodsWithoutBody.includes(method))) {
+    return { status: 'invalid', reason: 'body-not-allowed' };
+  }
+
+  return info;
+}
+
+function detectFraming(headers: HeadersInput): BodyInfo {
+  const fetchBody = getFetchBody(headers);
+  if (fetchBody === false) {
+    return { status: 'no-body' };
+  }
+
+  const method = getHeader(headers, ':method');
+  if (method !== undefined) {
+    return detectHttp2Framing(headers, method.toUpperCase());
+  }
+
+  const transferEncoding = getHeader(headers, 'transfer-encoding');
+  const contentLength = getHeader(headers, 'content-length');
+
+  if (transferEncoding !== undefined) {
+    if (contentLength !== undefined) {
+      return { status: 'invalid', reason: 'conflicting-headers' };
+    }
+    return parseTransferEncoding(transferEncoding);
+  }
+
+  if (contentLength !== undefined) {
+    return parseContentLength(contentLength);
+  }
+
+  if (fetchBody) {
+    // a stream of unknown length
+    return { status: 'has-body', transferEncoding: [] };
+  }
+
+  return { status: 'no-body' };
+}
+
+/**
+ * Detects the framing of an HTTP/2 request, see [RFC 9113](https://www.rfc-editor.org/rfc/rfc9113#section-8.1).
+ */
+function detectHttp2Framing(headers: HeadersInput, method: string): BodyInfo {
+  if (getHeader(headers, 'transfer-encoding') !== undefined) {
+    return { status: 'invalid', reason: 'invalid-transfer-encoding' };
+  }
+
+  const ended = getStreamEnded(headers);
+  if (ended) {
+    return { status: 'no-body' };
+  }
+
+  const contentLength = getHeader(headers, 'content-length');
+  if (contentLength !== undefined) {
+    return parseContentLength(contentLength);
+  }
+
+  if (ended === false || !http2MethodsWithoutBody.includes(method)) {
+    // DATA frames of unknown length
+    return { status: 'has-body', transferEncoding: [] };
+  }
+
+  return { status: 'no-body' };
+}
+
+/**
+ * Checks if an HTTP/2 request with the `:method` pseudo-header has a body, see `detectBody()`.
+ * Returns `undefined` for other requests.
+ */
+export function hasHttp2Body(headers: HeadersInput): boolean | undefined {
+  const method = getHeader(headers, ':method');
+  if (method === undefined) {
+    return undefined;
+  }
+  return detectHttp2Framing(headers, method.toUpperCase()).status != 'no-body';
+}
+
+function parseTransferEncoding(value: string): ChunkedBody | InvalidBody {
+  const codings = value.split(',').map((coding) => coding.trim().toLowerCase());
+  if (codings.some((coding) => !coding)) {
+    return { status: 'invalid', reason: 'invalid-transfer-encoding' };
+  }
+
+  const chunked = codings.filter((coding) => coding == 'chunked').length;
+  if (codings[codings.length - 1] != 'chunked' || chunked > 1) {
+    return { status: 'invalid', reason: 'chunked-not-final' };
+  }
+
+  return { status: 'has-body', transferEncoding: codings };
+}
+
+function parseContentLength(value: string): FixedLengthBody | InvalidBody {
+  const values = splitHeaderList(value);
+  if (!values.length || value !== value.trim() || values.some((length) => !DIGITS_REGEXP.test(length))) {
+    return { status: 'invalid', reason: 'invalid-content-length' };
+  }
+
+  if (values.some((length) => length !== values[0])) {
+    return { status: 'invalid', reason: 'conflicting-content-length' };
+  }
+
+  const length = Number(values[0]);
+  if (!Number.isSafeInteger(length)) {
+    return { status: 'invalid', reason: 'invalid-content-length' };
+  }
+
+  return { status: 'length', length };
+}
@@ -0,0 +1,82 @@
+import { IncomingHttpHeaders } from 'http';
+import { charsetOf, normalizeCharset } from './charset.js';
+import { createTypeMatcher } from './matcher.js';
+import { typeIsDetailed } from './type-is-detailed.js';
+import { is, typeIs } from './type-is.js';
+
+describe('normalizeCharset(label)', function () {
+  it('should resolve labels', function () {
+    expect(normalizeCharset('utf-8')).toBe('utf-8');
+    expect(normalizeCharset('UTF8')).toBe('utf-8');
+    expect(normalizeCharset(' Latin1 ')).toBe('windows-1252');
+    expect(normalizeCharset('us-ascii')).toBe('windows-1252');
+    expect(normalizeCharset('ISO-8859-1')).toBe('windows-1252');
+    expect(normalizeCharset('utf-16')).toBe('utf-16le');
+    expect(normalizeCharset('sjis')).toBe('shift_jis');
+  });
+
+  it('should return false for unknown labels', function () {
+    expect(normalizeCharset('bogus')).toBe(false);
+    expect(normalizeCharset(null as any)).toBe(false);
+  });
+});
+
+describe('charsetOf(headers)', function () {
+  it('should return the charset', function () {
+    expect(charsetOf(createHeaders('text/html; charset=UTF-8'))).toBe('utf-8');
+    expect(charsetOf(createHeaders('text/html; charset="latin1"'))).toBe('windows-1252');
+  });
+
+  it('should return the default charset', function () {
+    expect(charsetOf(createHeaders('application/json'))).toBe('utf-8');
+    expect(charsetOf(createHeaders('application/vnd.api+json'))).toBe('utf-8');
+    expect(charsetOf(createHeaders('application/x-www-form-urlencoded'))).toBe('utf-8');
+  });
+
+  it('should return null without charset', function () {
+    expect(charsetOf(createHeaders('text/html'))).toBe(null);
+    expect(charsetOf(createHeaders())).toBe(null);
+  });
+
+  it('should return false for unknown charset or invalid type', function () {
+    expect(charsetOf(createHeaders('text/html; charset=bogus'))).toBe(false);
+    expect(charsetOf(createHeaders('bogus'))).toBe(false);
+  });
+});
+
+describe('charsets option', function () {
+  const options = { charsets: ['utf-8'] };
+
+  it('should reject charsets outside the list', function () {
+    expect(typeIs(createHeaders('text/plain; charset=utf8'), ['text/*'], options)).toBe('text/plain');
+    expect(typeIs(createHeaders('text/plain; charset=latin1'), ['text/*'], options)).toBe(false);
+    expect(typeIs(createHeaders('text/plain; charset=bogus'), ['text/*'], options)).toBe(false);
+    expect(is('text/plain; charset=latin1', [], options)).toBe(false);
+  });
+
+  it('should allow media types without charset', function () {
+    expect(typeIs(createHeaders('text/plain'), ['text/*'], options)).toBe('text/plain');
+    expect(typeIs(createHeaders('application/json'), ['json'], { charsets: ['latin1'] })).toBe(false);
+  });
+
+  it('should be supported by createTypeMatcher()', function () {
+    const matcher = createTypeMatcher(['text/*'], options);
+    expect(matcher('text/plain; charset=UTF-8')).toBe('text/plain');
+    expect(matcher('text/plain; charset=latin1')).toBe(false);
+  });
+
+  it('should be reported by typeIsDetailed()', function () {
+    expect(typeIsDetailed(createHeaders('text/plain; charset=latin1'), ['text/*'], options)).toMatchObject({
+      matched: false,
+      reason: 'unsupported-charset',
+      charset: 'windows-1252',
+    });
+  });
+});
+
+function createHeaders(type?: string) {
+  return {
+    'content-type': type || undefined,
+    'transfer-encoding': 'chunked',
+  } as IncomingHttpHeaders;
+}
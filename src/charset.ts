@@ -0,0 +1,141 @@
+import { HeadersInput, getHeader } from './headers.js';
+import { MediaType, essenceOf, parseMediaType } from './media-type.js';
+
+/**
+ * Labels of the most used encodings, see [WHATWG Encoding](https://encoding.spec.whatwg.org/#names-and-labels).
+ */
+const encodings: Record<string, string[]> = {
+  'utf-8': ['unicode-1-1-utf-8', 'unicode11utf8', 'unicode20utf8', 'utf-8', 'utf8', 'x-unicode20utf8'],
+  'utf-16be': ['unicodefffe', 'utf-16be'],
+  'utf-16le': ['csunicode', 'iso-10646-ucs-2', 'ucs-2', 'unicode', 'unicodefeff', 'utf-16', 'utf-16le'],
+  'windows-1252': [
+    'ansi_x3.4-1968',
+    'ascii',
+    'cp1252',
+    'cp819',
+    'csisolatin1',
+    'ibm819',
+    'iso-8859-1',
+    'iso-ir-100',
+    'iso8859-1',
+    'iso88591',
+    'iso_8859-1',
+    'iso_8859-1:1987',
+    'l1',
+    'latin1',
+    'us-ascii',
+    'windows-1252',
+    'x-cp1252',
+  ],
+  'iso-8859-2': [
+    'csisolatin2',
+    'iso-8859-2',
+    'iso-ir-101',
+    'iso8859-2',
+    'iso88592',
+    'iso_8859-2',
+    'iso_8859-2:1987',
+    'l2',
+    'latin2',
+  ],
+  'iso-8859-15': ['csisolatin9', 'iso-8859-15', 'iso8859-15', 'iso885915', 'iso_8859-15', 'l9'],
+  'windows-1251': ['cp1251', 'windows-1251', 'x-cp1251'],
+  'koi8-r': ['cskoi8r', 'koi', 'koi8', 'koi8-r', 'koi8_r'],
+  'koi8-u': ['koi8-ru', 'koi8-u'],
+  gbk: ['chinese', 'csgb2312', 'csiso58gb231280', 'gb2312', 'gb_2312', 'gb_2312-80', 'gbk', 'iso-ir-58', 'x-gbk'],
+  gb18030: ['gb18030'],
+  big5: ['big5', 'big5-hkscs', 'cn-big5', 'csbig5', 'x-x-big5'],
+  'euc-jp': ['cseucpkdfmtjapanese', 'euc-jp', 'x-euc-jp'],
+  shift_jis: ['csshiftjis', 'ms932', 'ms_kanji', 'shift-jis', 'shift_jis', 'sjis', 'windows-31j', 'x-sjis'],
+  'euc-kr': [
+    'cseuckr',
+    'csksc56011987',
+    'euc-kr',
+    'iso-ir-149',
+    'korean',
+    'ks_c_5601-1987',
+    'ks_c_5601-1989',
+    'ksc5601',
+    'ksc_5601',
+    'windows-949',
+  ],
+};
+
+const labels = new Map<string, string>();
+for (const [name, aliases] of Object.entries(encodings)) {
+  for (const label of aliases) {
+    labels.set(label, name);
+  }
+}
+
+/**
+ * Media types whose charset is always UTF-8 when it is not given,
+ * see [RFC 8259](https://www.rfc-editor.org/rfc/rfc8259#section-8.1).
+ */
+const utf8Types = ['application/json', 'application/x-ndjson', 'application/x-www-form-urlencoded'];
+
+/**
+ * Resolves a charset `label` to the name of the encoding, e.g. `utf8` to `utf-8` and `latin1`
+ * to `windows-1252`, following the [WHATWG Encoding](https://encoding.spec.whatwg.org/) standard.
+ * Returns `false` for unknown labels.
+ */
+export function normalizeCharset(label: string): string | false {
+  if (typeof label != 'string') {
+    return false;
+  }
+  return labels.get(label.trim().toLowerCase()) || false;
+}
+
+/**
+ * Returns the name of the encoding of the `Content-Type` of the `headers` (see `normalizeCharset()`).
+ * If the `charset` parameter is not given, then the default of the media type is returned, e.g.
+ * `utf-8` for `application/json` and `+json` types. Returns `null` if there is neither a charset nor
+ * a default, and `false` if the charset is unknown or the `Content-Type` is invalid.
+ *
+```ts
+charsetOf({ 'content-type': 'text/html; charset=UTF8' }); // => 'utf-8'
+charsetOf({ 'content-type': 'text/html; charset=latin1' }); // => 'windows-1252'
+charsetOf({ 'content-type': 'application/json' }); // => 'utf-8'
+charsetOf({ 'content-type': 'text/html' }); // => null
+```
+ */
+export function charsetOf(headers: HeadersInput): string | false | null {
+  const value = getHeader(headers, 'content-type');
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return charsetOfMediaType(parseMediaType(value));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Same as `charsetOf()`, but for a parsed `mediaType`.
+ */
+export function charsetOfMediaType(mediaType: MediaType): string | false | null {
+  const charset = mediaType.parameters.get('charset');
+  if (charset !== undefined) {
+    return normalizeCharset(charset);
+  }
+
+  if (mediaType.suffix == 'json' || utf8Types.includes(essenceOf(mediaType))) {
+    return 'utf-8';
+  }
+
+  return null;
+}
+
+/**
+ * Checks that the charset of the `mediaType` is one of the `charsets`. A media type with no charset
+ * and no default one is allowed.
+ */
+export function isCharsetAllowed(mediaType: MediaType, charsets: string[]): boolean {
+  const charset = charsetOfMediaType(mediaType);
+  if (charset === null) {
+    return true;
+  }
+  return charset !== false && charsets.some((allowed) => normalizeCharset(allowed) === charset);
+}
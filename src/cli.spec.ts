@@ -0,0 +1,139 @@
+import { CliIO, runCli } from './cli.js';
+
+describe('runCli(args, io)', function () {
+  const head = [
+    'POST /upload HTTP/1.1',
+    'Host: example.com',
+    'Content-Type: application/json; charset=utf-8',
+    'Content-Length: 2',
+    '',
+    '{}',
+  ].join('\r\n');
+
+  it('should check a Content-Type value', async function () {
+    const io = createIO();
+    expect(await runCli(['--type', 'Application/JSON; charset=utf-8', 'html', 'json'], io)).toBe(0);
+    expect(io.out.join('\n')).toBe(
+      [
+        'Content-Type: Application/JSON; charset=utf-8',
+        'Type:         application/json',
+        'Parameters:   charset=utf-8',
+        'Result:       match json by pattern #1 json',
+        '  #0 html: type-mismatch',
+      ].join('\n'),
+    );
+  });
+
+  it('should report why the other patterns failed', async function () {
+    const io = createIO();
+    expect(await runCli(['-t', 'text/html', 'html', 'json', 'text/plain'], io)).toBe(0);
+    expect(io.out.join('\n')).toBe(
+      [
+        'Content-Type: text/html',
+        'Type:         text/html',
+        'Result:       match html by pattern #0 html',
+        '  #1 json: type-mismatch',
+        '  #2 text/plain: type-mismatch',
+      ].join('\n'),
+    );
+
+    const stdin = 'Content-Type: text/html\nContent-Length: 2\n';
+    const json = createIO({ stdin });
+    expect(await runCli(['--json', 'html', 'json'], json)).toBe(0);
+    expect(JSON.parse(json.out[0])).toMatchObject({
+      index: 0,
+      candidates: [{ pattern: 'json', index: 1, reason: 'type-mismatch' }],
+    });
+  });
+
+  it('should check an HTTP head from stdin', async function () {
+    const io = createIO({ stdin: head });
+    expect(await runCli(['--json', 'json'], io)).toBe(0);
+    expect(JSON.parse(io.out[0])).toEqual({
+      method: 'POST',
+      contentType: 'application/json; charset=utf-8',
+      type: 'application/json',
+      parameters: { charset: 'utf-8' },
+      hasBody: true,
+      body: { status: 'length', length: 2 },
+      matched: true,
+      reason: 'match',
+      value: 'json',
+      pattern: 'json',
+      index: 0,
+      candidates: [],
+      repairs: [],
+    });
+  });
+
+  it('should check an HTTP head from a file', async function () {
+    const io = createIO({ files: { 'head.txt': 'Content-Type: text/html\nTransfer-Encoding: chunked\n' } });
+    expect(await runCli(['--file', 'head.txt', '--json', 'json'], io)).toBe(1);
+    expect(JSON.parse(io.out[0])).toMatchObject({
+      method: null,
+      hasBody: true,
+      body: { status: 'has-body', transferEncoding: ['chunked'] },
+      matched: false,
+      reason: 'mismatch',
+      candidates: [{ pattern: 'json', index: 0, reason: 'type-mismatch' }],
+    });
+  });
+
+  it('should exit with 1 on no match', async function () {
+    expect(await runCli(['-t', 'text/html', 'json'], createIO())).toBe(1);
+    expect(await runCli(['json'], createIO({ stdin: 'GET / HTTP/1.1\nHost: example.com\n\n' }))).toBe(1);
+    expect(await runCli(['-t', 'text/html; charset=latin1', '--charset', 'utf-8', 'html'], createIO())).toBe(1);
+  });
+
+  it('should exit with 2 on invalid input', async function () {
+    const io = createIO({ stdin: 'Content-Type: text/html\nbogus\n' });
+    expect(await runCli(['html'], io)).toBe(2);
+    expect(io.err[0]).toMatch(/^type-is: Invalid header line: bogus/);
+
+    const json = createIO();
+    expect(await runCli(['-t', 'text/html;', '--json', 'html'], json)).toBe(2);
+    expect(JSON.parse(json.out[0])).toMatchObject({ reason: 'invalid-content-type', error: expect.any(String) });
+
+    expect(await runCli(['-t', 'text/html', 'text/{html'], createIO())).toBe(2);
+    expect(await runCli(['-t', 'text/html', '--duplicates', 'bogus'], createIO())).toBe(2);
+    expect(await runCli(['--unknown'], createIO())).toBe(2);
+  });
+
+  it('should print errors as JSON', async function () {
+    const io = createIO();
+    expect(await runCli(['-t', 'text/html', '--json', 'bogus'], io)).toBe(2);
+    expect(JSON.parse(io.out[0])).toEqual({ error: 'Unknown type: bogus' });
+  });
+
+  it('should pass options to typeIs()', async function () {
+    const io = createIO();
+    expect(await runCli(['-t', 'application/json;', '--lenient', '--json', 'json'], io)).toBe(0);
+    expect(JSON.parse(io.out[0])).toMatchObject({ matched: true, repairs: ['empty-parameter'] });
+
+    const stdin = 'Content-Type: application/json\nContent-Encoding: br\nContent-Length: 2\n';
+    expect(await runCli(['--encoding', 'gzip', '--encoding', 'identity', 'json'], createIO({ stdin }))).toBe(1);
+  });
+
+  it('should print help', async function () {
+    const io = createIO();
+    expect(await runCli(['--help'], io)).toBe(0);
+    expect(io.out[0]).toMatch(/^Usage: type-is/);
+  });
+});
+
+function createIO(input: { stdin?: string; files?: Record<string, string> } = {}) {
+  const io = {
+    out: [] as string[],
+    err: [] as string[],
+    stdout: (text: string) => io.out.push(text),
+    stderr: (text: string) => io.err.push(text),
+    readFile: async (path: string) => {
+      if (!input.files || !Object.hasOwn(input.files, path)) {
+        throw new Error(`ENOENT: no such file, open '${path}'`);
+      }
+      return input.files[path];
+    },
+    readStdin: async () => input.stdin ?? '',
+  };
+  return io satisfies CliIO;
+}
@@ -0,0 +1,330 @@
+import { parseArgs } from 'node:util';
+
+import { BodyInfo, detectBody } from './body.js';
+import { RawHeaders } from './headers.js';
+import { createTypeMatcher } from './matcher.js';
+import { MediaType, MediaTypeRepair, essenceOf } from './media-type.js';
+import {
+  CandidateFailure,
+  TypeIsDetailedOptions,
+  TypeIsResult,
+  matchDetailed,
+  typeIsDetailed,
+} from './type-is-detailed.js';
+import { DuplicatesPolicy, hasBody, parseContentType } from './type-is.js';
+
+/**
+ * The exit code of the `type-is` command: 0 - match, 1 - no match, 2 - the arguments, the patterns,
+ * the HTTP head or the `Content-Type` cannot be parsed.
+ */
+export type ExitCode = 0 | 1 | 2;
+
+const EXIT_MATCH = 0;
+const EXIT_NO_MATCH = 1;
+const EXIT_INVALID = 2;
+
+/**
+ * What the `type-is` command reads and writes, so it can run outside of a process.
+ */
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+  readFile(path: string): Promise<string>;
+  readStdin(): Promise<string>;
+}
+
+/**
+ * The report of the `type-is` command, printed as is with `--json`.
+ */
+export interface CliReport {
+  /**
+   * The request method of the HTTP head, if it has a request line.
+   */
+  method: string | null;
+  contentType: string | null;
+  /**
+   * The media type without parameters, after aliases of the registry are resolved.
+   */
+  type: string | null;
+  parameters: Record<string, string>;
+  /**
+   * What `hasBody()` decided, `null` for a `--type` value.
+   */
+  hasBody: boolean | null;
+  /**
+   * The framing of the body, see `detectBody()`, `null` for a `--type` value.
+   */
+  body: BodyInfo | null;
+  matched: boolean;
+  reason: TypeIsResult['reason'];
+  value: string | null;
+  pattern: string | null;
+  index: number;
+  candidates: CandidateFailure[];
+  repairs: MediaTypeRepair[];
+  /**
+   * Why the `Content-Type` cannot be parsed.
+   */
+  error?: string;
+}
+
+const USAGE = `Usage: type-is [options] [pattern...]
+
+Checks a Content-Type value or a raw HTTP request head against the patterns, the same as typeIs() does.
+The HTTP head is read from --file or from stdin.
+
+Options:
+  -t, --type <value>        a Content-Type value to check instead of an HTTP head
+  -f, --file <path>         a file with the HTTP head, "-" for stdin
+      --json                print the report as JSON
+      --lenient             repair malformed Content-Type values
+      --charset <name>      an allowed charset, can be repeated
+      --encoding <coding>   an allowed content coding, can be repeated
+      --duplicates <policy> reject, first, last or require-identical
+      --require-boundary    require a valid multipart boundary
+      --structured-suffixes match base formats such as json for +json types
+  -h, --help                print this help
+
+Exit codes: 0 - match, 1 - no match, 2 - invalid input.`;
+
+const duplicatesPolicies: DuplicatesPolicy[] = ['reject', 'first', 'last', 'require-identical'];
+
+/**
+ * Runs the `type-is` command with the `args` (without the node and script paths) and returns its exit code.
+ *
+```ts
+await runCli(['--type', 'application/json; charset=utf-8', 'json', 'html'], io); // => 0
+```
+ */
+export async function runCli(args: string[], io: CliIO): Promise<ExitCode> {
+  let json = false;
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        type: { type: 'string', short: 't' },
+        file: { type: 'string', short: 'f' },
+        json: { type: 'boolean' },
+        lenient: { type: 'boolean' },
+        charset: { type: 'string', multiple: true },
+        encoding: { type: 'string', multiple: true },
+        duplicates: { type: 'string' },
+        'require-boundary': { type: 'boolean' },
+        'structured-suffixes': { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+    json = !!values.json;
+
+    if (values.help) {
+      io.stdout(USAGE);
+      return EXIT_MATCH;
+    }
+    if (values.type !== undefined && values.file !== undefined) {
+      throw new TypeError('Give either --type or --file');
+    }
+    if (values.duplicates !== undefined && !duplicatesPolicies.includes(values.duplicates as DuplicatesPolicy)) {
+      throw new TypeError(`Invalid duplicates policy: ${values.duplicates}`);
+    }
+
+    const options: TypeIsDetailedOptions = {
+      allCandidates: true,
+      charsets: values.charset,
+      encodings: values.encoding,
+      duplicates: values.duplicates as DuplicatesPolicy | undefined,
+      parser: values.lenient ? 'lenient' : 'strict',
+      requireBoundary: values['require-boundary'],
+      structuredSuffixes: values['structured-suffixes'],
+    };
+
+    // validate the patterns
+    createTypeMatcher(positionals, options);
+
+    let report: CliReport;
+    if (values.type !== undefined) {
+      report = checkType(values.type, positionals, options);
+    } else {
+      const head =
+        values.file === undefined || values.file == '-' ? await io.readStdin() : await io.readFile(values.file);
+      report = checkHead(head, positionals, options);
+    }
+
+    io.stdout(json ? JSON.stringify(report, null, 2) : formatReport(report));
+    return exitCodeOf(report);
+  } catch (err) {
+    const message = (err as Error).message;
+    if (json) {
+      io.stdout(JSON.stringify({ error: message }, null, 2));
+    } else {
+      io.stderr(`type-is: ${message}\n\n${USAGE}`);
+    }
+    return EXIT_INVALID;
+  }
+}
+
+function checkType(value: string, acceptable: string[], options: TypeIsDetailedOptions): CliReport {
+  let result: TypeIsResult;
+  let repairs: MediaTypeRepair[] = [];
+  try {
+    const parsed = parseContentType(value, options);
+    repairs = parsed.repairs;
+    result = matchDetailed(parsed.mediaType, acceptable, options);
+  } catch (err) {
+    result = { matched: false, reason: 'invalid-content-type', contentType: value, error: err as Error };
+  }
+
+  return createReport(value, null, null, null, result, repairs);
+}
+
+function checkHead(head: string, acceptable: string[], options: TypeIsDetailedOptions): CliReport {
+  const { method, headers } = parseHead(head);
+  const lines = contentTypeLines(headers);
+  const result = typeIsDetailed(headers, acceptable, options);
+  const repairs = ('repairs' in result && result.repairs) || [];
+
+  return createReport(
+    lines.length ? lines.join(', ') : null,
+    method,
+    hasBody(headers),
+    detectBody(headers, { method: method ?? undefined }),
+    result,
+    repairs,
+  );
+}
+
+function createReport(
+  contentType: string | null,
+  method: string | null,
+  body: boolean | null,
+  bodyInfo: BodyInfo | null,
+  result: TypeIsResult,
+  repairs: MediaTypeRepair[],
+): CliReport {
+  const mediaType: MediaType | undefined = 'mediaType' in result ? result.mediaType : undefined;
+  return {
+    method,
+    contentType,
+    type: mediaType ? essenceOf(mediaType) : null,
+    parameters: mediaType ? Object.fromEntries(mediaType.parameters) : {},
+    hasBody: body,
+    body: bodyInfo,
+    matched: result.matched,
+    reason: result.reason,
+    value: result.matched ? result.value : null,
+    pattern: result.matched ? result.pattern : null,
+    index: result.matched ? result.index : -1,
+    candidates: 'candidates' in result ? result.candidates : [],
+    repairs,
+    error: result.reason == 'invalid-content-type' ? result.error.message : undefined,
+  };
+}
+
+/**
+ * Parses a raw HTTP request head: an optional request line followed by header fields, up to the first
+ * empty line. Folded lines are joined with the previous field.
+ */
+function parseHead(head: string): { method: string | null; headers: string[] } {
+  const lines = head.split(/\r?\n/);
+  const end = lines.indexOf('');
+  const fields = end === -1 ? lines : lines.slice(0, end);
+
+  let method: string | null = null;
+  const requestLine = /^([A-Za-z]+) +\S+ +HTTP\/\d(?:\.\d)?$/.exec(fields[0] || '');
+  if (requestLine) {
+    method = requestLine[1].toUpperCase();
+    fields.shift();
+  }
+
+  const headers: string[] = [];
+  for (const line of fields) {
+    if ((line[0] == ' ' || line[0] == '\t') && headers.length) {
+      // obsolete line folding
+      headers[headers.length - 1] += ' ' + line.trim();
+      continue;
+    }
+    const index = line.indexOf(':');
+    if (index <= 0) {
+      throw new TypeError(`Invalid header line: ${line}`);
+    }
+    headers.push(line.slice(0, index).trim(), line.slice(index + 1).trim());
+  }
+
+  return { method, headers };
+}
+
+function contentTypeLines(headers: RawHeaders): string[] {
+  const lines: string[] = [];
+  for (let i = 0; i < headers.length; i += 2) {
+    if (headers[i].toLowerCase() == 'content-type') {
+      lines.push(headers[i + 1]);
+    }
+  }
+  return lines;
+}
+
+function exitCodeOf(report: CliReport): ExitCode {
+  if (report.matched) {
+    return EXIT_MATCH;
+  }
+  switch (report.reason) {
+    case 'invalid-content-type':
+    case 'duplicate-content-type':
+    case 'invalid-pattern':
+      return EXIT_INVALID;
+  }
+  return EXIT_NO_MATCH;
+}
+
+function formatReport(report: CliReport): string {
+  const lines: string[] = [];
+  const line = (label: string, value: string) => lines.push(`${(label + ':').padEnd(14)}${value}`);
+
+  if (report.method) {
+    line('Method', report.method);
+  }
+  line('Content-Type', report.contentType ?? '(none)');
+  if (report.type) {
+    line('Type', report.type);
+  }
+  const parameters = Object.entries(report.parameters);
+  if (parameters.length) {
+    line('Parameters', parameters.map(([name, value]) => `${name}=${value}`).join('; '));
+  }
+  if (report.repairs.length) {
+    line('Repairs', report.repairs.join(', '));
+  }
+  if (report.body) {
+    line('Body', `${report.hasBody ? 'yes' : 'no'} (${describeBody(report.body)})`);
+  }
+
+  if (report.error) {
+    line('Error', report.error);
+  }
+
+  if (report.matched) {
+    const pattern = report.pattern === null ? 'no patterns' : `pattern #${report.index} ${report.pattern}`;
+    line('Result', `match ${report.value} by ${pattern}`);
+  } else {
+    line('Result', `no match (${report.reason})`);
+  }
+
+  for (const candidate of report.candidates) {
+    lines.push(`  #${candidate.index} ${candidate.pattern}: ${candidate.reason}`);
+  }
+
+  return lines.join('\n');
+}
+
+function describeBody(body: BodyInfo): string {
+  switch (body.status) {
+    case 'no-body':
+      return 'no body';
+    case 'length':
+      return `content-length ${body.length}`;
+    case 'has-body':
+      return `transfer-encoding ${body.transferEncoding.join(', ')}`;
+    case 'invalid':
+      return `invalid framing: ${body.reason}`;
+  }
+}
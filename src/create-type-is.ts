@@ -0,0 +1,54 @@
+import { extensionFor, extensionsFor, typeForPath } from './extension.js';
+import { HeadersInput } from './headers.js';
+import { MediaType } from './media-type.js';
+import { TypeMatcher, createTypeMatcher } from './matcher.js';
+import { negotiate, preferredType } from './negotiate.js';
+import { TypeRegistry, TypeRegistryOptions } from './registry.js';
+import { is, normalize, typeIs } from './type-is.js';
+
+/**
+ * The functions returned by `createTypeIs()`, bound to their own `TypeRegistry`.
+ */
+export interface TypeIs {
+  registry: TypeRegistry;
+  is(actual?: string | MediaType | null, acceptable?: string[]): string | false;
+  typeIs(headers: HeadersInput, acceptable?: string[]): string | false | null;
+  normalize(type: string): string | false | null;
+  extensionFor(mediaType: string | MediaType): string | false;
+  extensionsFor(mediaType: string | MediaType): string[];
+  typeForPath(path: string): string | false;
+  createTypeMatcher(acceptable: string[]): TypeMatcher;
+  negotiate(headers: HeadersInput, available: string[]): string[];
+  preferredType(headers: HeadersInput, available: string[]): string | false;
+}
+
+/**
+ * Creates a set of functions that use their own `TypeRegistry` with the given shorthands,
+ * file extensions and aliases. The settings do not affect the other registries.
+ *
+```ts
+const { typeIs } = createTypeIs({
+  shorthands: { jsonapi: 'application/vnd.api+json' },
+  extensions: { js: 'text/javascript' },
+  aliases: { 'application/x-javascript': 'text/javascript' },
+});
+
+typeIs(headers, ['jsonapi', 'js']);
+```
+ */
+export function createTypeIs(options?: TypeRegistryOptions): TypeIs {
+  const registry = new TypeRegistry(options);
+
+  return {
+    registry,
+    is: (actual, acceptable) => is(actual, acceptable || [], { registry }),
+    typeIs: (headers, acceptable) => typeIs(headers, acceptable || [], { registry }),
+    normalize: (type) => normalize(type, registry),
+    extensionFor: (mediaType) => extensionFor(mediaType, registry),
+    extensionsFor: (mediaType) => extensionsFor(mediaType, registry),
+    typeForPath: (path) => typeForPath(path, registry),
+    createTypeMatcher: (acceptable) => createTypeMatcher(acceptable, { registry }),
+    negotiate: (headers, available) => negotiate(headers, available, { registry }),
+    preferredType: (headers, available) => preferredType(headers, available, { registry }),
+  };
+}
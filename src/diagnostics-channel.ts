@@ -0,0 +1,21 @@
+import diagnosticsChannel from 'node:diagnostics_channel';
+
+import { DECISION_CHANNEL, setDecisionPublisher } from './diagnostics.js';
+
+export { DECISION_CHANNEL };
+
+/**
+ * The opt-in entry `@ts-stack/type-is/diagnostics`: once imported, each decision reported to the `onDecision`
+ * option is also published to the `type-is:decision` channel of `node:diagnostics_channel`. It is kept out of
+ * the main entry, which does not import Node.js modules.
+ *
+```ts
+import diagnosticsChannel from 'node:diagnostics_channel';
+import { DECISION_CHANNEL } from '@ts-stack/type-is/diagnostics';
+
+diagnosticsChannel.subscribe(DECISION_CHANNEL, (event) => logger.debug(event));
+```
+ */
+export const decisionChannel = diagnosticsChannel.channel(DECISION_CHANNEL);
+
+setDecisionPublisher(decisionChannel);
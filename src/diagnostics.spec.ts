@@ -0,0 +1,259 @@
+import diagnosticsChannel from 'diagnostics_channel';
+import { IncomingHttpHeaders } from 'http';
+import { bestMatch } from './best-match.js';
+import { DECISION_CHANNEL, decisionChannel } from './diagnostics-channel.js';
+import { TypeDecisionEvent, createDecisionStats, setDecisionPublisher } from './diagnostics.js';
+import { createTypeMatcher } from './matcher.js';
+import { parseMediaType } from './media-type.js';
+import { typeIsDetailed } from './type-is-detailed.js';
+import { is, typeIs } from './type-is.js';
+
+describe('onDecision option', function () {
+  it('should report decisions of is()', function () {
+    const events: TypeDecisionEvent[] = [];
+    const onDecision = (event: TypeDecisionEvent) => events.push(event);
+
+    expect(is('Application/JSON; charset=utf-8', ['html', 'json'], { onDecision })).toBe('json');
+    expect(is('text/html', ['json'], { onDecision })).toBe(false);
+    expect(is('text/html;', ['json'], { onDecision })).toBe(false);
+    expect(is('text/html', ['json', 'bogus'], { onDecision })).toBe(false);
+    expect(is(parseMediaType('text/html'), ['html'], { onDecision })).toBe('html');
+
+    expect(events).toEqual([
+      {
+        source: 'is',
+        contentType: 'Application/JSON; charset=utf-8',
+        type: 'application/json',
+        acceptable: ['html', 'json'],
+        result: 'json',
+        category: 'match',
+      },
+      {
+        source: 'is',
+        contentType: 'text/html',
+        type: 'text/html',
+        acceptable: ['json'],
+        result: false,
+        category: 'mismatch',
+      },
+      {
+        source: 'is',
+        contentType: 'text/html;',
+        type: null,
+        acceptable: ['json'],
+        result: false,
+        category: 'parse-error',
+      },
+      {
+        source: 'is',
+        contentType: 'text/html',
+        type: 'text/html',
+        acceptable: ['json', 'bogus'],
+        result: false,
+        category: 'unknown-pattern',
+      },
+      {
+        source: 'is',
+        contentType: 'text/html',
+        type: 'text/html',
+        acceptable: ['html'],
+        result: 'html',
+        category: 'match',
+      },
+    ]);
+  });
+
+  it('should report invalid MediaType objects without throwing', function () {
+    const events: TypeDecisionEvent[] = [];
+    const onDecision = (event: TypeDecisionEvent) => events.push(event);
+    const invalid = { type: 'te xt', subtype: 'plain' } as any;
+
+    expect(is(invalid, ['text/*'], { onDecision })).toBe(false);
+    expect(createTypeMatcher(['text/*'], { onDecision })(invalid)).toBe(false);
+    expect(bestMatch(invalid, ['text/*'], { onDecision })).toBe(false);
+
+    expect(events.map((event) => [event.source, event.contentType, event.type, event.result, event.category])).toEqual([
+      ['is', null, null, false, 'parse-error'],
+      ['createTypeMatcher', null, null, false, 'parse-error'],
+      ['bestMatch', null, null, false, 'parse-error'],
+    ]);
+  });
+
+  it('should report decisions of typeIs() once', function () {
+    const events: TypeDecisionEvent[] = [];
+    const onDecision = (event: TypeDecisionEvent) => events.push(event);
+
+    typeIs(createHeaders('application/json'), ['json'], { onDecision });
+    typeIs({ 'content-type': 'application/json' }, ['json'], { onDecision });
+    typeIs(createHeaders(), ['json'], { onDecision });
+    typeIs(createHeaders('text/html, application/json'), ['json'], { onDecision, duplicates: 'reject' });
+    typeIs(createHeaders('application/json'), ['json'], { onDecision, encodings: ['gzip'] });
+
+    expect(events.map((event) => [event.source, event.result, event.category])).toEqual([
+      ['typeIs', 'json', 'match'],
+      ['typeIs', null, 'no-body'],
+      ['typeIs', false, 'no-content-type'],
+      ['typeIs', false, 'parse-error'],
+      ['typeIs', false, 'mismatch'],
+    ]);
+  });
+
+  it('should report decisions of typeIsDetailed()', function () {
+    const events: TypeDecisionEvent[] = [];
+    const onDecision = (event: TypeDecisionEvent) => events.push(event);
+
+    typeIsDetailed(createHeaders('application/json'), ['json'], { onDecision });
+    typeIsDetailed(createHeaders('text/html'), ['json', 'bogus'], { onDecision });
+    typeIsDetailed(createHeaders('multipart/form-data'), ['multipart'], { onDecision, requireBoundary: true });
+
+    expect(events.map((event) => [event.source, event.type, event.result, event.category])).toEqual([
+      ['typeIsDetailed', 'application/json', 'json', 'match'],
+      ['typeIsDetailed', 'text/html', false, 'unknown-pattern'],
+      ['typeIsDetailed', 'multipart/form-data', false, 'parse-error'],
+    ]);
+  });
+
+  it('should report decisions of createTypeMatcher()', function () {
+    const events: TypeDecisionEvent[] = [];
+    const isJson = createTypeMatcher(['json'], { onDecision: (event) => events.push(event) });
+
+    isJson('application/json');
+    isJson(createHeaders('text/html'));
+    isJson({ 'content-type': 'application/json' });
+
+    expect(events.map((event) => [event.source, event.type, event.result, event.category])).toEqual([
+      ['createTypeMatcher', 'application/json', 'json', 'match'],
+      ['createTypeMatcher', 'text/html', false, 'mismatch'],
+      ['createTypeMatcher', 'application/json', null, 'no-body'],
+    ]);
+    expect(events[0].acceptable).toEqual(['json']);
+  });
+
+  it('should report decisions of bestMatch()', function () {
+    const events: TypeDecisionEvent[] = [];
+    const onDecision = (event: TypeDecisionEvent) => events.push(event);
+
+    bestMatch('application/vnd.api+json', ['+json', 'application/vnd.api+json'], { onDecision });
+    bestMatch(createHeaders('text/html;'), ['html'], { onDecision });
+    bestMatch(createHeaders(), ['html'], { onDecision });
+
+    expect(events.map((event) => [event.source, event.type, event.result, event.category])).toEqual([
+      ['bestMatch', 'application/vnd.api+json', 'application/vnd.api+json', 'match'],
+      ['bestMatch', null, false, 'parse-error'],
+      ['bestMatch', null, false, 'no-content-type'],
+    ]);
+  });
+});
+
+describe('diagnostics channel', function () {
+  it('should publish decisions to subscribers', function () {
+    const events: unknown[] = [];
+    const subscriber = (event: unknown) => events.push(event);
+
+    diagnosticsChannel.subscribe(DECISION_CHANNEL, subscriber);
+    try {
+      typeIs(createHeaders('text/html'), ['json']);
+    } finally {
+      diagnosticsChannel.unsubscribe(DECISION_CHANNEL, subscriber);
+    }
+    typeIs(createHeaders('text/html'), ['json']);
+
+    diagnosticsChannel.subscribe(DECISION_CHANNEL, subscriber);
+    try {
+      createTypeMatcher(['json'])('text/html');
+    } finally {
+      diagnosticsChannel.unsubscribe(DECISION_CHANNEL, subscriber);
+    }
+
+    expect(events).toEqual([
+      {
+        source: 'typeIs',
+        contentType: 'text/html',
+        type: 'text/html',
+        acceptable: ['json'],
+        result: false,
+        category: 'mismatch',
+      },
+      {
+        source: 'createTypeMatcher',
+        contentType: 'text/html',
+        type: 'text/html',
+        acceptable: ['json'],
+        result: false,
+        category: 'mismatch',
+      },
+    ]);
+  });
+
+  it('should not publish decisions without a publisher', function () {
+    const events: unknown[] = [];
+    const subscriber = (event: unknown) => events.push(event);
+
+    diagnosticsChannel.subscribe(DECISION_CHANNEL, subscriber);
+    setDecisionPublisher(undefined);
+    try {
+      typeIs(createHeaders('text/html'), ['json']);
+    } finally {
+      setDecisionPublisher(decisionChannel);
+      diagnosticsChannel.unsubscribe(DECISION_CHANNEL, subscriber);
+    }
+
+    expect(events).toEqual([]);
+  });
+});
+
+describe('createDecisionStats()', function () {
+  it('should count top types and rejections', function () {
+    const stats = createDecisionStats();
+    const options = { onDecision: stats.record };
+
+    is('application/json', ['json'], options);
+    is('application/json; charset=utf-8', ['json'], options);
+    is('text/html', ['json'], options);
+    is('text/html', ['json'], options);
+    is('text/html;', ['json'], options);
+    typeIs(createHeaders(), ['json'], options);
+    typeIs({}, ['json'], options);
+
+    expect(stats.snapshot()).toEqual({
+      total: 7,
+      matched: 2,
+      types: [
+        { type: 'application/json', count: 2 },
+        { type: 'text/html', count: 2 },
+        { type: '(invalid)', count: 1 },
+        { type: '(none)', count: 1 },
+      ],
+      rejections: [
+        { category: 'mismatch', count: 2 },
+        { category: 'parse-error', count: 1 },
+        { category: 'no-content-type', count: 1 },
+        { category: 'no-body', count: 1 },
+      ],
+    });
+    expect(stats.snapshot(1).types).toEqual([{ type: 'application/json', count: 2 }]);
+
+    stats.reset();
+    expect(stats.snapshot()).toEqual({ total: 0, matched: 0, types: [], rejections: [] });
+  });
+
+  it('should limit distinct types', function () {
+    const stats = createDecisionStats({ maxTypes: 2 });
+    for (const type of ['a/a', 'b/b', 'c/c', 'd/d', 'a/a']) {
+      is(type, ['json'], { onDecision: stats.record });
+    }
+
+    expect(stats.snapshot().types).toEqual([
+      { type: 'a/a', count: 2 },
+      { type: '(other)', count: 2 },
+      { type: 'b/b', count: 1 },
+    ]);
+  });
+});
+
+function createHeaders(type?: string) {
+  return {
+    'content-type': type || undefined,
+    'transfer-encoding': 'chunked',
+  } as IncomingHttpHeaders;
+}
@@ -0,0 +1,322 @@
+import { unsupportedEncodings } from './encoding.js';
+import { HeadersInput, getHeader } from './headers.js';
+import { MediaType, essenceOf, formatMediaType, isMediaType, parseMediaType } from './media-type.js';
+import { tryExpandPattern } from './pattern.js';
+import { defaultRegistry } from './registry.js';
+import { TypeIsFailure, TypeIsResult } from './type-is-detailed.js';
+import { TypeIsOptions, checkOptions, getContentType, hasBody, parseContentType } from './type-is.js';
+
+/**
+ * The name of the `node:diagnostics_channel` channel that a `TypeDecisionEvent` is published to for each
+ * decision, once `@ts-stack/type-is/diagnostics` is imported.
+ */
+export const DECISION_CHANNEL = 'type-is:decision';
+
+/**
+ * Where decisions are published besides the `onDecision` option, e.g. a channel of `node:diagnostics_channel`.
+ */
+export interface DecisionPublisher {
+  readonly hasSubscribers: boolean;
+  publish(event: TypeDecisionEvent): void;
+}
+
+let publisher: DecisionPublisher | undefined;
+
+/**
+ * Publishes decisions to the `target` as well, so the core does not import Node.js modules itself.
+ */
+export function setDecisionPublisher(target: DecisionPublisher | undefined): void {
+  publisher = target;
+}
+
+/**
+ * The category of a decision:
+ *
+ * - `match` - one of the acceptable types matched;
+ * - `no-body` - the request has no body;
+ * - `no-content-type` - there is no `Content-Type`;
+ * - `parse-error` - the `Content-Type` is malformed, ambiguous or has an invalid multipart boundary;
+ * - `unknown-pattern` - nothing matched and some of the acceptable types are unknown or malformed,
+ *   which is a bug of the caller;
+ * - `mismatch` - nothing matched, or the charset or the content coding is not allowed.
+ */
+export type DecisionCategory = 'match' | 'no-body' | 'no-content-type' | 'parse-error' | 'unknown-pattern' | 'mismatch';
+
+export interface TypeDecisionEvent {
+  /**
+   * The function that made the decision.
+   */
+  source: 'is' | 'typeIs' | 'typeIsDetailed' | 'createTypeMatcher' | 'bestMatch';
+  /**
+   * The raw `Content-Type`, or `null` if there is none.
+   */
+  contentType: string | null;
+  /**
+   * The media type without parameters, after aliases are resolved, or `null` if it cannot be parsed.
+   */
+  type: string | null;
+  acceptable: readonly string[];
+  /**
+   * The value returned by `is()`, `typeIs()` or a matcher of `createTypeMatcher()`, or the `value`
+   * of `typeIsDetailed()` and `bestMatch()` if it matched.
+   */
+  result: string | false | null;
+  category: DecisionCategory;
+}
+
+/**
+ * Checks if decisions made with the `options` need to be reported, so nothing is done for them otherwise.
+ */
+export function isObserved(options: TypeIsOptions | undefined): boolean {
+  return !!options?.onDecision || !!publisher?.hasSubscribers;
+}
+
+/**
+ * Reports the decision of `is()`, or of the `source` that works the same, on the `actual` media type.
+ */
+export function observeIs(
+  actual: string | MediaType | null | undefined,
+  acceptable: readonly string[],
+  result: string | false,
+  options: TypeIsOptions,
+  source: TypeDecisionEvent['source'] = 'is',
+): void {
+  let contentType: string | null;
+  try {
+    contentType = isMediaType(actual) ? formatMediaType(actual) : actual || null;
+  } catch {
+    // an invalid MediaType object does not match, reporting must not throw either
+    emit({ source, contentType: null, type: null, acceptable, result, category: 'parse-error' }, options);
+    return;
+  }
+  const mediaType = parseOf(contentType, options);
+  const category = result !== false ? 'match' : categoryOf(contentType, mediaType, acceptable, options);
+  emit({ source, contentType, type: mediaType && essenceOf(mediaType), acceptable, result, category }, options);
+}
+
+/**
+ * Reports the decision of `typeIs()`, or of the `source` that works the same, on the request with the `headers`.
+ */
+export function observeTypeIs(
+  headers: HeadersInput,
+  acceptable: readonly string[],
+  result: string | false | null,
+  options: TypeIsOptions,
+  source: TypeDecisionEvent['source'] = 'typeIs',
+): void {
+  const contentType = getHeader(headers, 'content-type') ?? null;
+  const mediaType = parseOf(contentType, options);
+
+  let category: DecisionCategory;
+  if (result === null || !hasBody(headers)) {
+    category = 'no-body';
+  } else if (result !== false) {
+    category = 'match';
+  } else if (options.encodings && unsupportedEncodings(headers, options.encodings).length) {
+    category = 'mismatch';
+  } else if (getContentType(headers, options) === false) {
+    category = 'parse-error';
+  } else {
+    category = categoryOf(contentType, mediaType, acceptable, options);
+  }
+
+  emit({ source, contentType, type: mediaType && essenceOf(mediaType), acceptable, result, category }, options);
+}
+
+/**
+ * Reports the `result` of `typeIsDetailed()` on the request with the `headers`.
+ */
+export function observeTypeIsDetailed(
+  headers: HeadersInput,
+  acceptable: readonly string[],
+  result: TypeIsResult,
+  options: TypeIsOptions,
+): void {
+  const contentType = getHeader(headers, 'content-type') ?? null;
+  const mediaType = 'mediaType' in result ? result.mediaType : parseOf(contentType, options);
+  emit(
+    {
+      source: 'typeIsDetailed',
+      contentType,
+      type: mediaType && essenceOf(mediaType),
+      acceptable,
+      result: result.matched ? result.value : result.reason == 'no-body' ? null : false,
+      category: result.matched ? 'match' : categoryOfResult(result),
+    },
+    options,
+  );
+}
+
+function emit(event: TypeDecisionEvent, options: TypeIsOptions): void {
+  options.onDecision?.(event);
+  if (publisher?.hasSubscribers) {
+    publisher.publish(event);
+  }
+}
+
+/**
+ * Parses the `contentType` the same as `is()` does, without reporting repairs again.
+ */
+function parseOf(contentType: string | null, options: TypeIsOptions): MediaType | null {
+  if (!contentType) {
+    return null;
+  }
+
+  try {
+    const registry = options.registry || defaultRegistry;
+    return registry.resolve(parseContentType(contentType, options).mediaType);
+  } catch {
+    return null;
+  }
+}
+
+function categoryOf(
+  contentType: string | null,
+  mediaType: MediaType | null,
+  acceptable: readonly string[],
+  options: TypeIsOptions,
+): DecisionCategory {
+  if (!contentType) {
+    return 'no-content-type';
+  }
+  if (!mediaType || checkOptions(mediaType, options) == 'invalid-boundary') {
+    return 'parse-error';
+  }
+  return acceptable.some((pattern) => isUnknownPattern(pattern, options)) ? 'unknown-pattern' : 'mismatch';
+}
+
+function categoryOfResult(result: TypeIsFailure): DecisionCategory {
+  switch (result.reason) {
+    case 'no-body':
+    case 'no-content-type':
+      return result.reason;
+    case 'invalid-content-type':
+    case 'duplicate-content-type':
+    case 'invalid-boundary':
+      return 'parse-error';
+    case 'invalid-pattern':
+      return 'unknown-pattern';
+  }
+
+  const candidates = 'candidates' in result ? result.candidates : [];
+  const unknown = candidates.some(
+    (candidate) => candidate.reason == 'unknown-pattern' || candidate.reason == 'invalid-pattern',
+  );
+  return unknown ? 'unknown-pattern' : 'mismatch';
+}
+
+function isUnknownPattern(pattern: string, options: TypeIsOptions): boolean {
+  const alternatives = tryExpandPattern(pattern);
+  const registry = options.registry || defaultRegistry;
+  return (
+    !alternatives.length ||
+    alternatives.some((alternative) => {
+      const normalized = registry.normalize(alternative);
+      try {
+        return !normalized || !parseMediaType(normalized);
+      } catch {
+        return true;
+      }
+    })
+  );
+}
+
+export interface DecisionStatsOptions {
+  /**
+   * The most distinct media types to count, the others are counted as `(other)` so that clients sending
+   * random types cannot exhaust the memory. Defaults to 1000.
+   */
+  maxTypes?: number;
+}
+
+export interface DecisionStatsSnapshot {
+  total: number;
+  matched: number;
+  /**
+   * The most frequent media types, `(none)` for a missing `Content-Type` and `(invalid)` for a malformed one.
+   */
+  types: { type: string; count: number }[];
+  /**
+   * The categories of the decisions that did not match, the most frequent first.
+   */
+  rejections: { category: DecisionCategory; count: number }[];
+}
+
+/**
+ * Counts decisions in memory, see `createDecisionStats()`.
+ */
+export interface DecisionStats {
+  /**
+   * Counts the `event`. Can be passed as is to the `onDecision` option or to `diagnostics_channel.subscribe()`.
+   */
+  record(event: TypeDecisionEvent): void;
+  /**
+   * Returns the counts so far, with up to `limit` media types. Defaults to 10.
+   */
+  snapshot(limit?: number): DecisionStatsSnapshot;
+  reset(): void;
+}
+
+/**
+ * Creates an in-memory aggregator of decisions that counts the most frequent media types and the reasons
+ * of rejections.
+ *
+```ts
+import diagnosticsChannel from 'node:diagnostics_channel';
+import { DECISION_CHANNEL } from '@ts-stack/type-is/diagnostics';
+
+const stats = createDecisionStats();
+diagnosticsChannel.subscribe(DECISION_CHANNEL, stats.record);
+// or typeIs(req.headers, ['json'], { onDecision: stats.record });
+
+stats.snapshot(3);
+// => { total: 120, matched: 100, types: [{ type: 'application/json', count: 100 }, ...],
+//      rejections: [{ category: 'mismatch', count: 15 }, { category: 'parse-error', count: 5 }] }
+```
+ */
+export function createDecisionStats(options: DecisionStatsOptions = {}): DecisionStats {
+  const maxTypes = options.maxTypes ?? 1000;
+  let total = 0;
+  let matched = 0;
+  const types = new Map<string, number>();
+  const rejections = new Map<DecisionCategory, number>();
+
+  return {
+    record(event) {
+      total++;
+      if (event.category == 'match') {
+        matched++;
+      } else {
+        rejections.set(event.category, (rejections.get(event.category) || 0) + 1);
+      }
+
+      if (event.category != 'no-body') {
+        let type = event.type ?? (event.contentType === null ? '(none)' : '(invalid)');
+        if (!types.has(type) && types.size >= maxTypes) {
+          type = '(other)';
+        }
+        types.set(type, (types.get(type) || 0) + 1);
+      }
+    },
+    snapshot(limit = 10) {
+      return {
+        total,
+        matched,
+        types: top(types, limit).map(([type, count]) => ({ type, count })),
+        rejections: top(rejections, rejections.size).map(([category, count]) => ({ category, count })),
+      };
+    },
+    reset() {
+      total = 0;
+      matched = 0;
+      types.clear();
+      rejections.clear();
+    },
+  };
+}
+
+function top<K>(counts: Map<K, number>, limit: number): [K, number][] {
+  return Array.from(counts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit);
+}
@@ -0,0 +1,51 @@
+import { IncomingHttpHeaders } from 'http';
+import { contentEncodingIs, contentEncodingsOf } from './encoding.js';
+
+describe('contentEncodingsOf(headers)', function () {
+  it('should return codings in the order they were applied', function () {
+    expect(contentEncodingsOf({ 'content-encoding': 'br, gzip' })).toEqual(['br', 'gzip']);
+    expect(contentEncodingsOf({ 'content-encoding': 'GZIP' })).toEqual(['gzip']);
+  });
+
+  it('should resolve aliases and skip identity', function () {
+    expect(contentEncodingsOf({ 'content-encoding': 'x-gzip, identity, x-compress' })).toEqual(['gzip', 'compress']);
+    expect(contentEncodingsOf({ 'content-encoding': 'identity' })).toEqual([]);
+    expect(contentEncodingsOf({})).toEqual([]);
+  });
+
+  it('should combine repeated fields', function () {
+    const rawHeaders = ['Content-Encoding', 'deflate', 'Content-Encoding', 'gzip'];
+    expect(contentEncodingsOf(rawHeaders)).toEqual(['deflate', 'gzip']);
+    expect(contentEncodingsOf(new Headers([['content-encoding', 'br, gzip']]))).toEqual(['br', 'gzip']);
+  });
+});
+
+describe('contentEncodingIs(headers, acceptable)', function () {
+  it('should return null without body', function () {
+    expect(contentEncodingIs({ 'content-encoding': 'gzip' }, ['gzip'])).toBe(null);
+  });
+
+  it('should require each stacked coding to be acceptable', function () {
+    expect(contentEncodingIs(createHeaders('br, gzip'), ['gzip', 'br'])).toEqual(['br', 'gzip']);
+    expect(contentEncodingIs(createHeaders('br, gzip'), ['gzip', 'identity'])).toBe(false);
+    expect(contentEncodingIs(createHeaders('x-gzip'), ['GZIP'])).toEqual(['gzip']);
+  });
+
+  it('should require identity for a body that is not encoded', function () {
+    expect(contentEncodingIs(createHeaders(), ['gzip', 'identity'])).toEqual(['identity']);
+    expect(contentEncodingIs(createHeaders('identity'), ['identity'])).toEqual(['identity']);
+    expect(contentEncodingIs(createHeaders(), ['gzip'])).toBe(false);
+  });
+
+  it('should accept any coding given "*"', function () {
+    expect(contentEncodingIs(createHeaders('zstd'), ['*'])).toEqual(['zstd']);
+    expect(contentEncodingIs(createHeaders(), ['*'])).toEqual(['identity']);
+  });
+});
+
+function createHeaders(encoding?: string) {
+  return {
+    'content-encoding': encoding,
+    'content-length': '42',
+  } as IncomingHttpHeaders;
+}
@@ -0,0 +1,86 @@
+import { HeadersInput, getHeaderLines, splitHeaderList } from './headers.js';
+import { hasBody } from './type-is.js';
+
+/**
+ * Aliases of content codings, see [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110#section-8.4.1).
+ */
+const aliases: Record<string, string> = { 'x-gzip': 'gzip', 'x-compress': 'compress' };
+
+/**
+ * Resolves a content `coding` to its lowercase name, e.g. `X-GZIP` to `gzip`.
+ */
+export function normalizeEncoding(coding: string): string {
+  const name = coding.trim().toLowerCase();
+  return aliases[name] || name;
+}
+
+/**
+ * Returns the content codings of the `headers` in the order they were applied, e.g. `['br', 'gzip']`
+ * for `Content-Encoding: br, gzip`. Repeated `Content-Encoding` fields are combined, and `identity`
+ * is left out since it means no coding. Returns an empty array for a body that is not encoded.
+ *
+```ts
+contentEncodingsOf({ 'content-encoding': 'br, x-gzip' }); // => ['br', 'gzip']
+contentEncodingsOf({ 'content-encoding': 'identity' }); // => []
+```
+ */
+export function contentEncodingsOf(headers: HeadersInput): string[] {
+  return getHeaderLines(headers, 'content-encoding')
+    .flatMap(splitHeaderList)
+    .map(normalizeEncoding)
+    .filter((coding) => coding != 'identity');
+}
+
+/**
+ * Returns the content codings of the `headers` that are not one of the `acceptable`, or `['identity']`
+ * if the body is not encoded and `identity` is not acceptable. Returns an empty array if all are acceptable.
+ */
+export function unsupportedEncodings(headers: HeadersInput, acceptable: readonly string[]): string[] {
+  const allowed = new Set(acceptable.map(normalizeEncoding));
+  if (allowed.has('*')) {
+    return [];
+  }
+
+  const codings = contentEncodingsOf(headers);
+  if (!codings.length) {
+    return allowed.has('identity') ? [] : ['identity'];
+  }
+  return codings.filter((coding) => !allowed.has(coding));
+}
+
+/**
+ * Returns the value of the `Accept-Encoding` header that lists the `acceptable` content codings,
+ * for a 415 response as described in [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.16).
+ */
+export function acceptEncodingFor(acceptable: readonly string[]): string {
+  return Array.from(new Set(acceptable.map(normalizeEncoding))).join(', ');
+}
+
+/**
+ * Checks if each of the content codings of the `headers` is one of the `acceptable`, e.g. `gzip` or `br`.
+ * Codings can be stacked, so `Content-Encoding: br, gzip` needs both `br` and `gzip` to be acceptable.
+ * A body that is not encoded needs `identity`, and `*` accepts any coding. Returns the codings in the order
+ * they were applied, `['identity']` for a body that is not encoded, `false` if any coding is not acceptable,
+ * or `null` if the request has no body.
+ *
+```ts
+// const headers = { 'content-encoding': 'br, gzip', 'content-length': '42' };
+
+contentEncodingIs(headers, ['gzip', 'br']); // => ['br', 'gzip']
+contentEncodingIs(headers, ['gzip', 'identity']); // => false
+contentEncodingIs({ 'content-length': '42' }, ['gzip', 'identity']); // => ['identity']
+```
+ */
+export function contentEncodingIs(headers: HeadersInput, acceptable: readonly string[]): string[] | false | null {
+  // no body
+  if (!hasBody(headers)) {
+    return null;
+  }
+
+  if (unsupportedEncodings(headers, acceptable).length) {
+    return false;
+  }
+
+  const codings = contentEncodingsOf(headers);
+  return codings.length ? codings : ['identity'];
+}
@@ -0,0 +1,72 @@
+import { extensionFor, extensionsFor, typeForPath } from './extension.js';
+import { parseMediaType } from './media-type.js';
+import { TypeRegistry } from './registry.js';
+
+describe('extensionsFor(mediaType)', function () {
+  it('should return extensions, the canonical one first', function () {
+    expect(extensionsFor('image/jpeg')).toEqual(['jpeg', 'jpg', 'jpe']);
+    expect(extensionsFor('TEXT/HTML; charset=utf-8')).toEqual(['html', 'htm', 'shtml']);
+    expect(extensionsFor(parseMediaType('image/png'))).toEqual(['png']);
+  });
+
+  it('should rebuild MediaType objects made by hand', function () {
+    expect(extensionsFor({ type: 'Image', subtype: 'PNG' } as any)).toEqual(['png']);
+    expect(extensionsFor({ type: 'application', subtype: 'vnd.foo+json' } as any)).toEqual(['json']);
+    expect(extensionsFor({ type: 'im age', subtype: 'png' } as any)).toEqual([]);
+  });
+
+  it('should fall back to the base format of a suffix', function () {
+    expect(extensionsFor('application/vnd.foo+json')).toEqual(['json']);
+    expect(extensionsFor('application/vnd.foo+xml')).toEqual(['xml']);
+    expect(extensionsFor('image/svg+xml')).toEqual(['svg', 'svgz']);
+    expect(extensionsFor('application/vnd.foo+unknown')).toEqual([]);
+  });
+
+  it('should return an empty array for unknown or invalid types', function () {
+    expect(extensionsFor('application/x-unknown')).toEqual([]);
+    expect(extensionsFor('image/*')).toEqual([]);
+    expect(extensionsFor('bogus')).toEqual([]);
+  });
+
+  it('should respect the registry', function () {
+    const registry = new TypeRegistry({
+      extensions: { jsonapi: 'application/vnd.api+json' },
+      aliases: { 'image/jpg': 'image/jpeg' },
+    });
+    expect(extensionsFor('application/vnd.api+json', registry)).toEqual(['jsonapi']);
+    expect(extensionsFor('image/jpg', registry)).toEqual(['jpeg', 'jpg', 'jpe']);
+  });
+});
+
+describe('extensionFor(mediaType)', function () {
+  it('should return the canonical extension', function () {
+    expect(extensionFor('image/jpeg')).toBe('jpeg');
+    expect(extensionFor('application/problem+json')).toBe('json');
+    expect(extensionFor('application/x-unknown')).toBe(false);
+  });
+});
+
+describe('typeForPath(path)', function () {
+  it('should return the type of the extension', function () {
+    expect(typeForPath('/static/index.html')).toBe('text/html');
+    expect(typeForPath('C:\\uploads\\photo.JPG')).toBe('image/jpeg');
+    expect(typeForPath('archive.tar.gz')).toBe('application/gzip');
+  });
+
+  it('should return false without an extension or a mapping', function () {
+    expect(typeForPath('README')).toBe(false);
+    expect(typeForPath('dir.d/file')).toBe(false);
+    expect(typeForPath('file.')).toBe(false);
+    expect(typeForPath('file.unknown')).toBe(false);
+    expect(typeForPath(null as any)).toBe(false);
+  });
+
+  it('should respect the registry', function () {
+    const registry = new TypeRegistry({
+      extensions: { vue: 'text/x-vue' },
+      aliases: { 'application/javascript': 'text/javascript' },
+    });
+    expect(typeForPath('components/App.vue', registry)).toBe('text/x-vue');
+    expect(typeForPath('app.js', registry)).toBe('text/javascript');
+  });
+});
@@ -0,0 +1,78 @@
+import { MediaType, essenceOf, isMediaType, parseMediaType, toMediaType } from './media-type.js';
+import { TypeRegistry, defaultRegistry } from './registry.js';
+import { baseTypesOf } from './suffix.js';
+
+/**
+ * Returns the file extensions of the `mediaType` without a leading dot, the canonical one first.
+ * Custom extensions and aliases of the `registry` are respected, the same as `normalize()` does.
+ * If the media type has no extensions but has a structured syntax suffix, the canonical extension
+ * of its base format is returned, e.g. `json` for `application/vnd.foo+json`. Returns an empty array
+ * if there are none or the `mediaType` is invalid.
+ *
+```ts
+extensionsFor('image/jpeg'); // => ['jpeg', 'jpg', 'jpe']
+extensionsFor('text/html; charset=utf-8'); // => ['html', 'htm', 'shtml']
+extensionsFor('application/vnd.foo+json'); // => ['json']
+extensionsFor('application/x-unknown'); // => []
+```
+ */
+export function extensionsFor(mediaType: string | MediaType, registry: TypeRegistry = defaultRegistry): string[] {
+  let parsed: MediaType;
+  try {
+    parsed = isMediaType(mediaType) ? toMediaType(mediaType) : parseMediaType(mediaType);
+  } catch {
+    return [];
+  }
+
+  const extensions = registry.extensionsOf(essenceOf(parsed));
+  if (extensions.length || parsed.suffix === undefined) {
+    return extensions;
+  }
+
+  // fall back to the canonical extension of the base format
+  for (const type of baseTypesOf(parsed.suffix)) {
+    const [extension] = registry.extensionsOf(type);
+    if (extension) {
+      return [extension];
+    }
+  }
+  return [];
+}
+
+/**
+ * Returns the canonical file extension of the `mediaType` without a leading dot, or `false` if there
+ * is none. See `extensionsFor()`.
+ *
+```ts
+const type = typeIs(req.headers, ['image/*']); // => 'image/png'
+extensionFor(type); // => 'png'
+```
+ */
+export function extensionFor(mediaType: string | MediaType, registry: TypeRegistry = defaultRegistry): string | false {
+  return extensionsFor(mediaType, registry)[0] || false;
+}
+
+/**
+ * Returns the media type for the file extension of the `path`, or `false` if it has no extension or
+ * no mapping. Custom extensions and aliases of the `registry` are respected, the same as `normalize()` does.
+ *
+```ts
+typeForPath('/static/app.js'); // => 'application/javascript'
+typeForPath('C:\\uploads\\photo.JPG'); // => 'image/jpeg'
+typeForPath('README'); // => false
+```
+ */
+export function typeForPath(path: string, registry: TypeRegistry = defaultRegistry): string | false {
+  if (typeof path != 'string') {
+    return false;
+  }
+
+  const name = path.replace(/^.*[/\\]/, '');
+  const index = name.lastIndexOf('.');
+  if (index === -1 || index === name.length - 1) {
+    // no extension
+    return false;
+  }
+
+  return registry.lookup(name.slice(index + 1));
+}
@@ -0,0 +1,188 @@
+/**
+ * Headers as a plain object, such as Node.js `IncomingHttpHeaders`. The names are expected in lower case.
+ */
+export interface HeadersObject {
+  [name: string]: string | string[] | number | undefined;
+}
+
+/**
+ * Anything with a `get()` method like the WHATWG Fetch `Headers`.
+ */
+export interface FetchHeadersLike {
+  get(name: string): string | null;
+}
+
+/**
+ * A request or response with `headers`, such as the WHATWG Fetch `Request` and `Response`
+ * or Node.js `IncomingMessage`.
+ */
+export interface MessageLike {
+  headers: HeadersObject | FetchHeadersLike;
+  body?: unknown;
+  /**
+   * The raw header lines as in Node.js `IncomingMessage`, used to tell repeated fields apart.
+   */
+  rawHeaders?: readonly string[];
+  /**
+   * The header values as in Node.js `IncomingMessage` (Node.js 18.3+), used to tell repeated fields apart.
+   */
+  headersDistinct?: { [name: string]: string[] | undefined };
+  /**
+   * The HTTP/2 stream, such as `stream` of a Node.js `Http2ServerRequest` or the one of the `stream` event
+   * of an HTTP/2 server. Its `endAfterHeaders` tells if the `END_STREAM` flag was set in the HEADERS frame.
+   */
+  stream?: { endAfterHeaders?: boolean };
+}
+
+/**
+ * A flat list of names and values, such as Node.js `IncomingMessage.rawHeaders`.
+ */
+export type RawHeaders = ReadonlyArray<string>;
+
+/**
+ * Any form of headers that the functions of this library accept:
+ *
+ * - a plain object such as Node.js `IncomingHttpHeaders`;
+ * - the WHATWG Fetch `Headers`;
+ * - a `Request`, `Response` or Node.js `IncomingMessage`;
+ * - an array of `[name, value]` tuples;
+ * - a flat array of names and values such as Node.js `rawHeaders`.
+ */
+export type HeadersInput =
+  | HeadersObject
+  | FetchHeadersLike
+  | MessageLike
+  | ReadonlyArray<readonly [string, string]>
+  | RawHeaders;
+
+/**
+ * Returns the value of the header field `name`, or `undefined` if there is no such field.
+ * Multiple values are combined with `, ` the same as the WHATWG Fetch `Headers` does.
+ */
+export function getHeader(headers: HeadersInput, name: string): string | undefined {
+  name = name.toLowerCase();
+
+  if (Array.isArray(headers)) {
+    const values = getHeaderLines(headers, name);
+    return values.length ? values.join(', ') : undefined;
+  }
+
+  if (isMessageLike(headers)) {
+    return getHeader(headers.headers, name);
+  }
+
+  if (isFetchHeadersLike(headers)) {
+    // the Fetch Headers throw on HTTP/2 pseudo-headers
+    return name[0] == ':' ? undefined : (headers.get(name) ?? undefined);
+  }
+
+  const value = (headers as HeadersObject)[name];
+  if (value === undefined) {
+    return undefined;
+  }
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+/**
+ * Returns the values of each field line `name`, so that repeated fields can be told apart. The raw
+ * header lines of a Node.js `IncomingMessage` are used when available, since its `headers` object
+ * keeps only the first value of some fields, such as `Content-Type`. The WHATWG Fetch `Headers`
+ * combine repeated fields into one value.
+ */
+export function getHeaderLines(headers: HeadersInput, name: string): string[] {
+  name = name.toLowerCase();
+
+  if (Array.isArray(headers)) {
+    const values: string[] = [];
+    if (typeof headers[0] == 'string') {
+      for (let i = 0; i + 1 < headers.length; i += 2) {
+        if ((headers[i] as string).toLowerCase() == name) {
+          values.push(headers[i + 1]);
+        }
+      }
+    } else {
+      for (const [key, value] of headers as ReadonlyArray<readonly [string, string]>) {
+        if (key.toLowerCase() == name) {
+          values.push(value);
+        }
+      }
+    }
+    return values;
+  }
+
+  if (isMessageLike(headers)) {
+    const distinct = headers.headersDistinct?.[name];
+    if (distinct) {
+      return distinct.slice();
+    }
+    return getHeaderLines(headers.rawHeaders || headers.headers, name);
+  }
+
+  if (isFetchHeadersLike(headers)) {
+    const value = name[0] == ':' ? null : headers.get(name);
+    return value === null ? [] : [value];
+  }
+
+  const value = (headers as HeadersObject)[name];
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value.slice() : [String(value)];
+}
+
+/**
+ * Returns `true` or `false` if the `headers` belong to a WHATWG Fetch `Request` or `Response`
+ * that knows whether it has a body, otherwise `undefined`.
+ */
+export function getFetchBody(headers: HeadersInput): boolean | undefined {
+  if (isMessageLike(headers) && isFetchHeadersLike(headers.headers) && headers.body !== undefined) {
+    return headers.body !== null;
+  }
+  return undefined;
+}
+
+/**
+ * Returns `true` if the HTTP/2 stream of the `headers` was ended by the HEADERS frame (the `END_STREAM` flag),
+ * `false` if it was not, or `undefined` if it is not known.
+ */
+export function getStreamEnded(headers: HeadersInput): boolean | undefined {
+  if (isMessageLike(headers)) {
+    return headers.stream?.endAfterHeaders;
+  }
+  return undefined;
+}
+
+function isFetchHeadersLike(headers: HeadersInput): headers is FetchHeadersLike {
+  return typeof (headers as FetchHeadersLike).get == 'function';
+}
+
+function isMessageLike(headers: HeadersInput): headers is MessageLike {
+  const value = (headers as MessageLike).headers;
+  return typeof value == 'object' && value !== null;
+}
+
+/**
+ * Splits a comma-separated header value into its trimmed, non-empty members.
+ * Commas inside quoted strings are not treated as separators.
+ */
+export function splitHeaderList(value: string): string[] {
+  const list: string[] = [];
+  let quoted = false;
+  let start = 0;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (quoted && char == '\\') {
+      // skip quoted-pair
+      i++;
+    } else if (char == '"') {
+      quoted = !quoted;
+    } else if (char == ',' && !quoted) {
+      list.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  list.push(value.slice(start));
+
+  return list.map((member) => member.trim()).filter((member) => member.length);
+}
@@ -0,0 +1,61 @@
+import { readFileSync } from 'fs';
+import { builtinModules, createRequire } from 'module';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const require = createRequire(import.meta.url);
+
+function importsOf(source: string): string[] {
+  // doc comments have examples with imports
+  source = source.replace(/\/\*[\s\S]*?\*\//g, '');
+  const pattern = /^\s*(?:import|export)\s(?:[^;]*?\sfrom\s)?\s*'([^']+)'/gm;
+  return Array.from(source.matchAll(pattern), (match) => match[1]);
+}
+
+function requiresOf(source: string): string[] {
+  return Array.from(source.matchAll(/\brequire\(\s*['"]([^'"]+)['"]\s*\)/g), (match) => match[1]);
+}
+
+function isBuiltin(name: string): boolean {
+  return name.startsWith('node:') || builtinModules.includes(name.split('/')[0]);
+}
+
+describe('main entry', function () {
+  it('should not import Node.js modules', function () {
+    const visited = new Set<string>();
+    const packages = new Set<string>();
+    const builtins: string[] = [];
+    const queue = [join(dirname(fileURLToPath(import.meta.url)), 'index.js')];
+
+    while (queue.length) {
+      const file = queue.pop()!;
+      if (visited.has(file)) {
+        continue;
+      }
+      visited.add(file);
+
+      for (const name of importsOf(readFileSync(file, 'utf8'))) {
+        if (name.startsWith('.')) {
+          queue.push(join(dirname(file), name));
+        } else if (isBuiltin(name)) {
+          builtins.push(`${file}: ${name}`);
+        } else {
+          packages.add(name);
+        }
+      }
+    }
+
+    for (const name of packages) {
+      const file = require.resolve(name);
+      for (const dependency of requiresOf(readFileSync(file, 'utf8'))) {
+        if (isBuiltin(dependency)) {
+          builtins.push(`${file}: ${dependency}`);
+        }
+      }
+    }
+
+    expect(visited.size).toBeGreaterThan(10);
+    expect(Array.from(packages).sort()).toEqual(['content-type', 'mime-db']);
+    expect(builtins).toEqual([]);
+  });
+});
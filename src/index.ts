@@ -1 +1,83 @@
 export { typeIs, is, hasBody, mimeMatch, normalize } from './type-is.js';
+export type { TypeIsOptions, DuplicatesPolicy, MatchedType, MatchedTypes } from './type-is.js';
+export { parseMediaType, parseMediaTypeLenient, formatMediaType, MediaTypeParameters } from './media-type.js';
+export type { MediaType, MediaTypeFacet, MediaTypeInit, MediaTypeRepair, LenientMediaType } from './media-type.js';
+export { negotiate, preferredType } from './negotiate.js';
+export { createTypeMatcher } from './matcher.js';
+export { expandPattern } from './pattern.js';
+export type { TypeMatcher } from './matcher.js';
+export { TypeRegistry } from './registry.js';
+export { extensionFor, extensionsFor, typeForPath } from './extension.js';
+export type { TypeRegistryOptions } from './registry.js';
+export { createTypeIs } from './create-type-is.js';
+export type { TypeIs } from './create-type-is.js';
+export type { HeadersInput, HeadersObject, FetchHeadersLike, MessageLike, RawHeaders } from './headers.js';
+export { sniff, verifyType } from './sniff.js';
+export type { TypeVerification } from './sniff.js';
+export { typeIsDetailed } from './type-is-detailed.js';
+export type {
+  TypeIsResult,
+  TypeIsMatch,
+  TypeIsFailure,
+  TypeIsNoBody,
+  TypeIsNoContentType,
+  TypeIsInvalidContentType,
+  TypeIsMismatch,
+  TypeIsUnsupportedCharset,
+  TypeIsInvalidBoundary,
+  TypeIsDuplicateContentType,
+  TypeIsUnsupportedEncoding,
+  TypeIsFailureReason,
+  TypeIsDetailedOptions,
+  CandidateFailure,
+  CandidateFailureReason,
+} from './type-is-detailed.js';
+export { detectBody } from './body.js';
+export type {
+  BodyInfo,
+  NoBody,
+  ChunkedBody,
+  FixedLengthBody,
+  InvalidBody,
+  BodyInvalidReason,
+  DetectBodyOptions,
+} from './body.js';
+export { charsetOf, normalizeCharset } from './charset.js';
+export { contentEncodingIs, contentEncodingsOf } from './encoding.js';
+export { multipartInfo } from './multipart.js';
+export type { MultipartInfo, ValidMultipart, InvalidMultipart } from './multipart.js';
+export { requireType } from './require-type.js';
+export type {
+  RequireTypeOptions,
+  TypeGuard,
+  GuardDecision,
+  GuardAllowed,
+  GuardRejected,
+  GuardRequest,
+  GuardResponse,
+  GuardContext,
+} from './require-type.js';
+export { baseFormatOf } from './suffix.js';
+export { bestMatch } from './best-match.js';
+export type { BestMatch, Specificity } from './best-match.js';
+export { responseTypeIs, contentTypeFor } from './response.js';
+export type { OutgoingMessageLike, ResponseInput, ContentTypeForOptions } from './response.js';
+export { createTypePolicy } from './policy.js';
+export type {
+  TypePolicy,
+  TypePolicyOptions,
+  RoutePolicy,
+  PolicyRequest,
+  PolicyDecision,
+  PolicyAllowed,
+  PolicyRejected,
+  PolicyRejectionReason,
+} from './policy.js';
+export { DECISION_CHANNEL, createDecisionStats } from './diagnostics.js';
+export type {
+  DecisionCategory,
+  TypeDecisionEvent,
+  DecisionStats,
+  DecisionStatsOptions,
+  DecisionStatsSnapshot,
+} from './diagnostics.js';
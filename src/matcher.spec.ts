@@ -0,0 +1,147 @@
+import { IncomingHttpHeaders } from 'http';
+import { createTypeMatcher } from './matcher.js';
+import { parseMediaType } from './media-type.js';
+
+describe('createTypeMatcher(acceptable)', function () {
+  it('should throw on unknown types', function () {
+    expect(() => createTypeMatcher(['json', 'bogus'])).toThrow(new TypeError('Unknown type: bogus'));
+    expect(() => createTypeMatcher([null] as any)).toThrow(TypeError);
+  });
+
+  it('should throw on invalid types', function () {
+    expect(() => createTypeMatcher(['text/html/'])).toThrow(new TypeError('Invalid type: text/html/'));
+    expect(() => createTypeMatcher(['text/plain; charset'])).toThrow(TypeError);
+  });
+
+  it('should throw on invalid patterns', function () {
+    expect(() => createTypeMatcher(['text/{html'])).toThrow(
+      new TypeError('Invalid pattern "text/{html": unclosed "{"'),
+    );
+    expect(() => createTypeMatcher(['{json,bogus}'])).toThrow(new TypeError('Unknown type: bogus in {json,bogus}'));
+    expect(() => createTypeMatcher(['!bogus'])).toThrow(TypeError);
+  });
+
+  it('should expose acceptable types', function () {
+    expect(createTypeMatcher(['json', 'html']).acceptable).toEqual(['json', 'html']);
+  });
+
+  describe('given a media type', function () {
+    it('should return the type or false', function () {
+      const matcher = createTypeMatcher(['png', 'image/*', '+json']);
+
+      expect(matcher('image/png')).toBe('png');
+      expect(matcher('image/jpeg; foo=bar')).toBe('image/jpeg');
+      expect(matcher('application/vnd.api+json')).toBe('application/vnd.api+json');
+      expect(matcher('text/html')).toBe(false);
+      expect(matcher('bogus')).toBe(false);
+      expect(matcher('')).toBe(false);
+      expect(matcher(null)).toBe(false);
+    });
+
+    it('should match the same as is()', function () {
+      const matcher = createTypeMatcher(['urlencoded', 'multipart', '*/html', 'application/*+xml']);
+
+      expect(matcher('application/x-www-form-urlencoded')).toBe('urlencoded');
+      expect(matcher('multipart/form-data; boundary=x')).toBe('multipart');
+      expect(matcher('text/html')).toBe('text/html');
+      expect(matcher('application/atom+xml')).toBe('application/atom+xml');
+      expect(matcher('text/atom+xml')).toBe(false);
+    });
+
+    it('should match parameters', function () {
+      const matcher = createTypeMatcher(['text/plain; charset=utf-8']);
+
+      expect(matcher('text/plain; charset=UTF-8')).toBe('text/plain; charset=UTF-8');
+      expect(matcher('text/plain')).toBe(false);
+    });
+
+    it('should accept MediaType objects', function () {
+      const matcher = createTypeMatcher(['json']);
+
+      expect(matcher(parseMediaType('application/json'))).toBe('json');
+      expect(matcher(parseMediaType('text/html'))).toBe(false);
+    });
+
+    it('should validate and rebuild MediaType objects made by hand', function () {
+      const plain = { type: 'text', subtype: 'plain', parameters: { charset: 'utf-8' } } as any;
+
+      expect(createTypeMatcher(['text/plain; charset=utf-8'])(plain)).toBe('text/plain; charset=utf-8');
+      expect(createTypeMatcher(['text/plain'], { charsets: ['utf-8'] })(plain)).toBe('text/plain');
+      expect(createTypeMatcher(['text/*'])({ type: 'Text', subtype: 'Plain' } as any)).toBe('text/plain');
+      expect(createTypeMatcher(['*/*'])({ type: 'te xt', subtype: 'plain' } as any)).toBe(false);
+    });
+
+    it('should return the mime type when no types are given', function () {
+      expect(createTypeMatcher([])('Image/PNG; foo=bar')).toBe('image/png');
+    });
+
+    it('should return the same result for cached values', function () {
+      const matcher = createTypeMatcher(['json']);
+
+      for (let i = 0; i < 3; i++) {
+        expect(matcher('application/json')).toBe('json');
+        expect(matcher('bogus')).toBe(false);
+      }
+    });
+  });
+
+  describe('given extended patterns', function () {
+    it('should match alternatives and partial wildcards', function () {
+      const matcher = createTypeMatcher(['application/{json,xml}', 'application/vnd.myco.*']);
+
+      expect(matcher('application/xml')).toBe('application/xml');
+      expect(matcher('application/vnd.myco.item+json')).toBe('application/vnd.myco.item+json');
+      expect(matcher('application/vnd.other')).toBe(false);
+    });
+
+    it('should apply exclusions', function () {
+      const matcher = createTypeMatcher(['text/*', '!html', '!text/{xml,csv}']);
+
+      expect(matcher('text/plain')).toBe('text/plain');
+      expect(matcher('text/html')).toBe(false);
+      expect(matcher('text/csv')).toBe(false);
+      expect(createTypeMatcher(['!+xml'])('application/json')).toBe('application/json');
+      expect(createTypeMatcher(['!+xml'])('image/svg+xml')).toBe(false);
+    });
+  });
+
+  describe('given headers', function () {
+    it('should return null when no body is given', function () {
+      expect(createTypeMatcher(['json'])({})).toBe(null);
+    });
+
+    it('should return the type or false', function () {
+      const matcher = createTypeMatcher(['json']);
+
+      expect(matcher(createHeaders('application/json'))).toBe('json');
+      expect(matcher(createHeaders('text/html'))).toBe(false);
+      expect(matcher(createHeaders())).toBe(false);
+    });
+
+    it('should check content codings', function () {
+      const matcher = createTypeMatcher(['json'], { encodings: ['identity'] });
+
+      expect(matcher(createHeaders('application/json'))).toBe('json');
+      expect(matcher({ ...createHeaders('application/json'), 'content-encoding': 'gzip' })).toBe(false);
+    });
+  });
+
+  describe('with lenient parser', function () {
+    it('should report repairs of cached values', function () {
+      const repaired: string[] = [];
+      const matcher = createTypeMatcher(['json'], { parser: 'lenient', onRepair: (value) => repaired.push(value) });
+
+      expect(matcher('application/json;')).toBe('json');
+      expect(matcher('application/json;')).toBe('json');
+      expect(matcher('application/json')).toBe('json');
+      expect(repaired).toEqual(['application/json;', 'application/json;']);
+    });
+  });
+});
+
+function createHeaders(type?: string) {
+  return {
+    'content-type': type || undefined,
+    'transfer-encoding': 'chunked',
+  } as IncomingHttpHeaders;
+}
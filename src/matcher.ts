@@ -0,0 +1,268 @@
+import { isObserved, observeIs, observeTypeIs } from './diagnostics.js';
+import { unsupportedEncodings } from './encoding.js';
+import { HeadersInput } from './headers.js';
+import {
+  LenientMediaType,
+  MediaType,
+  MediaTypeParameters,
+  essenceOf,
+  formatMediaType,
+  isMediaType,
+  matchParameters,
+  parseMediaType,
+  toMediaType,
+} from './media-type.js';
+import { TypeRegistry, defaultRegistry } from './registry.js';
+import { expandPattern, isNegated, matchSubtype, returnsActual } from './pattern.js';
+import { baseFormatOf, baseFormatOfPattern } from './suffix.js';
+import { TypeIsOptions, checkOptions, getContentType, hasBody, parseContentType } from './type-is.js';
+
+/**
+ * A function returned by `createTypeMatcher()`.
+ */
+export interface TypeMatcher {
+  /**
+   * Checks a media type string or a `MediaType` object, the same as `is()` does.
+   * If `headers` are given, it works the same as `typeIs()`.
+   */
+  (input?: HeadersInput | MediaType | string | null): string | false | null;
+  /**
+   * The acceptable types the matcher was created with.
+   */
+  readonly acceptable: readonly string[];
+}
+
+interface CompiledPattern {
+  pattern: string;
+  /**
+   * The pattern is an exclusion such as `!text/html`.
+   */
+  negated: boolean;
+  /**
+   * The alternatives of a pattern such as `application/{json,xml}`, or the pattern itself.
+   */
+  alternatives: CompiledAlternative[];
+  /**
+   * The pattern has parameters, so the full type is returned.
+   */
+  returnsFull: boolean;
+  returnsActual: boolean;
+}
+
+interface CompiledAlternative {
+  type: string;
+  subtype: string;
+  /**
+   * The `+suffix` part of a `*+suffix` subtype.
+   */
+  suffix?: string;
+  parameters: MediaTypeParameters | null;
+  /**
+   * The base format of a file extension or a shorthand, with the `structuredSuffixes` option.
+   */
+  format: string | null;
+}
+
+/**
+ * How many parsed `Content-Type` values each matcher keeps.
+ */
+const CACHE_SIZE = 100;
+
+/**
+ * Creates a function that checks media types against the `acceptable` types, the same as `is()`
+ * and `typeIs()` do. The `acceptable` types are validated and compiled once, so that the returned
+ * function does not need to normalize them on each call. If any of them is invalid or has no mapping
+ * to a media type, then a `TypeError` is thrown.
+ *
+ * The returned function also caches recently parsed `Content-Type` values, which makes it a good fit
+ * for hot request paths where the same types are sent over and over again.
+ *
+```ts
+const isJson = createTypeMatcher(['json', '+json']);
+
+isJson(req.headers); // => 'json', 'application/vnd.api+json', false or null
+isJson('application/json; charset=utf-8'); // => 'json'
+```
+ */
+export function createTypeMatcher(acceptable: string[], options?: TypeIsOptions): TypeMatcher {
+  const registry = options?.registry || defaultRegistry;
+  const patterns = acceptable.map((pattern) => compilePattern(pattern, registry, options));
+  const exclusions = patterns.filter((pattern) => pattern.negated);
+  const inclusions = patterns.filter((pattern) => !pattern.negated);
+  const cache = new Map<string, LenientMediaType | null>();
+  const frozen = Object.freeze(acceptable.slice());
+
+  function parse(value?: string | null): MediaType | null {
+    if (!value) {
+      return null;
+    }
+
+    let parsed = cache.get(value);
+    if (parsed === undefined) {
+      try {
+        parsed = parseContentType(value, options);
+      } catch {
+        parsed = null;
+      }
+
+      if (cache.size >= CACHE_SIZE) {
+        // evict the oldest entry
+        cache.delete(cache.keys().next().value!);
+      }
+      cache.set(value, parsed);
+    }
+
+    if (parsed?.repairs.length) {
+      options?.onRepair?.(value, parsed.repairs);
+    }
+    return parsed && parsed.mediaType;
+  }
+
+  function matcher(input?: HeadersInput | MediaType | string | null): string | false | null {
+    const value = match(input);
+    if (isObserved(options)) {
+      if (isMediaType(input) || !input || typeof input != 'object') {
+        observeIs(input, frozen, value as string | false, options || {}, 'createTypeMatcher');
+      } else {
+        observeTypeIs(input, frozen, value, options || {}, 'createTypeMatcher');
+      }
+    }
+    return value;
+  }
+
+  function match(input?: HeadersInput | MediaType | string | null): string | false | null {
+    let mediaType: MediaType | null;
+
+    if (isMediaType(input)) {
+      try {
+        mediaType = toMediaType(input);
+      } catch {
+        mediaType = null;
+      }
+    } else if (input && typeof input == 'object') {
+      // no body
+      if (!hasBody(input)) {
+        return null;
+      }
+      if (options?.encodings && unsupportedEncodings(input, options.encodings).length) {
+        // unsupported content coding
+        return false;
+      }
+      const value = getContentType(input, options);
+      if (value === false) {
+        // ambiguous content type
+        return false;
+      }
+      mediaType = parse(value);
+    } else {
+      mediaType = parse(input);
+    }
+
+    // no type or invalid
+    if (!mediaType) {
+      return false;
+    }
+
+    // resolve aliases
+    mediaType = registry.resolve(mediaType);
+
+    // rejected by options
+    if (options && checkOptions(mediaType, options)) {
+      return false;
+    }
+
+    // exclusions apply to any match
+    if (exclusions.some((pattern) => matchPattern(pattern, mediaType!))) {
+      return false;
+    }
+
+    // no types other than exclusions, return the content type
+    if (!inclusions.length) {
+      return essenceOf(mediaType);
+    }
+
+    for (const pattern of inclusions) {
+      if (matchPattern(pattern, mediaType)) {
+        if (pattern.returnsFull) {
+          return formatMediaType(mediaType);
+        }
+        return pattern.returnsActual ? essenceOf(mediaType) : pattern.pattern;
+      }
+    }
+
+    // no matches
+    return false;
+  }
+
+  return Object.defineProperty(matcher as TypeMatcher, 'acceptable', { value: frozen });
+}
+
+function compilePattern(pattern: string, registry: TypeRegistry, options?: TypeIsOptions): CompiledPattern {
+  const alternatives = expandPattern(pattern);
+
+  return {
+    pattern,
+    negated: isNegated(pattern),
+    alternatives: alternatives.map((alternative) => {
+      const name = alternatives.length > 1 ? `${alternative} in ${pattern}` : pattern;
+      return compileAlternative(alternative, name, registry, options);
+    }),
+    returnsFull: pattern.indexOf(';') !== -1,
+    returnsActual: returnsActual(pattern),
+  };
+}
+
+function compileAlternative(
+  alternative: string,
+  name: string,
+  registry: TypeRegistry,
+  options?: TypeIsOptions,
+): CompiledAlternative {
+  const normalized = registry.normalize(alternative);
+  if (!normalized) {
+    throw new TypeError(`Unknown type: ${name}`);
+  }
+
+  let mediaType: MediaType;
+  try {
+    mediaType = parseMediaType(normalized);
+  } catch {
+    throw new TypeError(`Invalid type: ${name}`);
+  }
+
+  return {
+    type: mediaType.type,
+    subtype: mediaType.subtype,
+    suffix: mediaType.subtype.slice(0, 2) === '*+' ? mediaType.subtype.slice(1) : undefined,
+    parameters: mediaType.parameters.size ? mediaType.parameters : null,
+    format: options?.structuredSuffixes ? baseFormatOfPattern(alternative, registry) : null,
+  };
+}
+
+function matchPattern(pattern: CompiledPattern, mediaType: MediaType): boolean {
+  return pattern.alternatives.some((alternative) => matchAlternative(alternative, mediaType));
+}
+
+function matchAlternative(alternative: CompiledAlternative, mediaType: MediaType): boolean {
+  if (
+    !matchEssence(alternative, mediaType) &&
+    (!alternative.format || baseFormatOf(mediaType) !== alternative.format)
+  ) {
+    return false;
+  }
+
+  return !alternative.parameters || matchParameters(alternative.parameters, mediaType.parameters);
+}
+
+function matchEssence(alternative: CompiledAlternative, mediaType: MediaType): boolean {
+  // validate type
+  if (alternative.type !== '*' && alternative.type !== mediaType.type) {
+    return false;
+  }
+
+  // validate subtype
+  if (alternative.suffix !== undefined) {
+    return mediaType.subtype.endsWith(alternative.suffix);
+  }
+  return matchSubtype(alternative.subtype, mediaType.subtype);
+}
@@ -0,0 +1,162 @@
+import {
+  formatMediaType,
+  MediaTypeParameters,
+  parseEssence,
+  parseMediaType,
+  parseMediaTypeLenient,
+} from './media-type.js';
+
+describe('parseMediaType(value)', function () {
+  it('should parse type and subtype', function () {
+    const mediaType = parseMediaType('text/html');
+    expect(mediaType.type).toBe('text');
+    expect(mediaType.subtype).toBe('html');
+    expect(mediaType.suffix).toBeUndefined();
+    expect(mediaType.facet).toBeUndefined();
+    expect(mediaType.parameters.size).toBe(0);
+  });
+
+  it('should lower-case type and subtype', function () {
+    const mediaType = parseMediaType('Text/HTML');
+    expect(mediaType.type).toBe('text');
+    expect(mediaType.subtype).toBe('html');
+  });
+
+  it('should parse suffix and facet', function () {
+    const mediaType = parseMediaType('application/vnd.api+json');
+    expect(mediaType.subtype).toBe('vnd.api+json');
+    expect(mediaType.suffix).toBe('json');
+    expect(mediaType.facet).toBe('vnd');
+
+    expect(parseMediaType('image/prs.btif').facet).toBe('prs');
+    expect(parseMediaType('application/x.foo').facet).toBe('x');
+    expect(parseMediaType('application/x-www-form-urlencoded').facet).toBeUndefined();
+  });
+
+  it('should parse parameters', function () {
+    const { parameters } = parseMediaType('text/plain; Charset=UTF-8; format="flowed"');
+    expect(parameters.get('charset')).toBe('UTF-8');
+    expect(parameters.get('CHARSET')).toBe('UTF-8');
+    expect(parameters.get('format')).toBe('flowed');
+    expect(parameters.has('Format')).toBe(true);
+  });
+
+  it('should throw on invalid media type', function () {
+    expect(() => parseMediaType('bogus')).toThrow(TypeError);
+    expect(() => parseMediaType('text/plain; charset')).toThrow(TypeError);
+  });
+});
+
+describe('parseEssence(value)', function () {
+  it('should return the lower-cased type and subtype', function () {
+    expect(parseEssence('Text/HTML')).toBe('text/html');
+    expect(parseEssence(' application/json ; charset=utf-8')).toBe('application/json');
+    expect(parseEssence('text/plain; charset="utf-8"; format=flowed')).toBe('text/plain');
+  });
+
+  it('should throw the same as parseMediaType()', function () {
+    for (const value of ['bogus', 'text/plain; charset', 'text/plain;', 'text/plain; a=b c', 'text/plain; a="b']) {
+      expect(() => parseMediaType(value)).toThrow(TypeError);
+      expect(() => parseEssence(value)).toThrow(TypeError);
+    }
+  });
+});
+
+describe('parseMediaTypeLenient(value, lookup)', function () {
+  function parse(value: string, lookup?: (extension: string) => string | false) {
+    const { mediaType, repairs } = parseMediaTypeLenient(value, lookup);
+    return { type: formatMediaType(mediaType), repairs };
+  }
+
+  it('should not repair valid types', function () {
+    expect(parse('text/html; charset=utf-8')).toEqual({ type: 'text/html; charset=utf-8', repairs: [] });
+  });
+
+  it('should skip empty parameters', function () {
+    expect(parse('text/plain;')).toEqual({ type: 'text/plain', repairs: ['empty-parameter'] });
+    expect(parse('application/json;charset=UTF-8;')).toEqual({
+      type: 'application/json; charset=UTF-8',
+      repairs: ['empty-parameter'],
+    });
+    expect(parse('text/plain;; charset=utf-8')).toEqual({
+      type: 'text/plain; charset=utf-8',
+      repairs: ['empty-parameter'],
+    });
+  });
+
+  it('should skip parameters without values', function () {
+    expect(parse('text/plain; charset; foo=')).toEqual({ type: 'text/plain', repairs: ['missing-value'] });
+  });
+
+  it('should keep unquoted values with spaces', function () {
+    const { mediaType, repairs } = parseMediaTypeLenient('text/plain; title=Hello world ');
+    expect(mediaType.parameters.get('title')).toBe('Hello world');
+    expect(repairs).toEqual(['unquoted-value']);
+  });
+
+  it('should skip invalid and duplicate parameters', function () {
+    expect(parse('text/plain; a b=c; charset=utf-8; charset=latin1')).toEqual({
+      type: 'text/plain; charset=utf-8',
+      repairs: ['invalid-parameter', 'duplicate-parameter'],
+    });
+  });
+
+  it('should repair quoted values', function () {
+    expect(parse('text/plain; a="b\\"c"d; e=f')).toEqual({
+      type: 'text/plain; a="b\\"c"; e=f',
+      repairs: ['trailing-characters'],
+    });
+    expect(parse('text/plain; a="b')).toEqual({ type: 'text/plain; a=b', repairs: ['unterminated-quote'] });
+  });
+
+  it('should look up bare types', function () {
+    const lookup = (extension: string) => extension == 'json' && 'application/json';
+    expect(parse(' json; charset=utf-8;', lookup)).toEqual({
+      type: 'application/json; charset=utf-8',
+      repairs: ['bare-type', 'empty-parameter'],
+    });
+    expect(() => parse('json')).toThrow(TypeError);
+    expect(() => parse('html', lookup)).toThrow(TypeError);
+  });
+
+  it('should throw on invalid types', function () {
+    expect(() => parseMediaTypeLenient('text/')).toThrow(TypeError);
+    expect(() => parseMediaTypeLenient('te xt/plain')).toThrow(TypeError);
+    expect(() => parseMediaTypeLenient(null as any)).toThrow(TypeError);
+  });
+});
+
+describe('formatMediaType(mediaType)', function () {
+  it('should format type and subtype', function () {
+    expect(formatMediaType({ type: 'text', subtype: 'html' })).toBe('text/html');
+  });
+
+  it('should format parameters', function () {
+    const init = { type: 'text', subtype: 'html', parameters: { Charset: 'utf-8' } };
+    expect(formatMediaType(init)).toBe('text/html; charset=utf-8');
+  });
+
+  it('should quote parameters when needed', function () {
+    const init = { type: 'application', subtype: 'ld+json', parameters: [['profile', 'a b']] as [string, string][] };
+    expect(formatMediaType(init)).toBe('application/ld+json; profile="a b"');
+  });
+
+  it('should round-trip a parsed media type', function () {
+    const value = 'application/vnd.api+json; charset=utf-8';
+    expect(formatMediaType(parseMediaType(value))).toBe(value);
+  });
+
+  it('should throw on invalid media type', function () {
+    expect(() => formatMediaType({ type: 'text', subtype: 'html/' })).toThrow(TypeError);
+    expect(() => formatMediaType(null as any)).toThrow(TypeError);
+  });
+});
+
+describe('MediaTypeParameters', function () {
+  it('should be case-insensitive', function () {
+    const parameters = new MediaTypeParameters({ Charset: 'utf-8' });
+    expect(parameters.get('charset')).toBe('utf-8');
+    parameters.delete('CHARSET');
+    expect(parameters.size).toBe(0);
+  });
+});
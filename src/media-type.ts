@@ -0,0 +1,417 @@
+import contentType from 'content-type';
+
+/**
+ * Registration tree of a subtype, see [RFC 6838](https://tools.ietf.org/html/rfc6838#section-3):
+ *
+ * - `vnd` - vendor tree, e.g. `application/vnd.api+json`;
+ * - `prs` - personal or vanity tree, e.g. `image/prs.btif`;
+ * - `x` - unregistered tree, e.g. `application/x.foo`.
+ */
+export type MediaTypeFacet = 'vnd' | 'prs' | 'x';
+
+/**
+ * A structured representation of a media type such as `application/vnd.api+json; charset=utf-8`.
+ */
+export interface MediaType {
+  /**
+   * Top-level type in lower case, e.g. `application`.
+   */
+  type: string;
+  /**
+   * Full subtype in lower case, including the facet and the suffix, e.g. `vnd.api+json`.
+   */
+  subtype: string;
+  /**
+   * Structured syntax suffix without the `+`, e.g. `json`.
+   */
+  suffix?: string;
+  /**
+   * Registration tree of the subtype.
+   */
+  facet?: MediaTypeFacet;
+  /**
+   * Parameters of the media type, names are case-insensitive.
+   */
+  parameters: MediaTypeParameters;
+}
+
+/**
+ * The input for `formatMediaType()`. Parameters can be given as a plain object or as any iterable of pairs.
+ */
+export interface MediaTypeInit {
+  type: string;
+  subtype: string;
+  parameters?: Iterable<[string, string]> | Record<string, string>;
+}
+
+/**
+ * A `Map` of media type parameters where the names are case-insensitive.
+ *
+```ts
+const { parameters } = parseMediaType('text/plain; Charset=UTF-8');
+
+parameters.get('charset'); // => 'UTF-8'
+parameters.get('CHARSET'); // => 'UTF-8'
+```
+ */
+export class MediaTypeParameters extends Map<string, string> {
+  constructor(init?: Iterable<[string, string]> | Record<string, string> | null) {
+    super();
+    if (!init) {
+      return;
+    }
+    const entries = Symbol.iterator in init ? (init as Iterable<[string, string]>) : Object.entries(init);
+    for (const [name, value] of entries) {
+      this.set(name, value);
+    }
+  }
+
+  override get(name: string) {
+    return super.get(name.toLowerCase());
+  }
+
+  override has(name: string) {
+    return super.has(name.toLowerCase());
+  }
+
+  override set(name: string, value: string) {
+    return super.set(name.toLowerCase(), value);
+  }
+
+  override delete(name: string) {
+    return super.delete(name.toLowerCase());
+  }
+
+  toJSON(): Record<string, string> {
+    return Object.fromEntries(this);
+  }
+}
+
+/**
+ * Parses the `value` of a `Content-Type` header (or any other media type string) into a `MediaType`.
+ * The type, the subtype and the parameter names are lower-cased, the parameter values are unquoted
+ * but left as is. If the `value` is invalid, a `TypeError` is thrown.
+ *
+```ts
+parseMediaType('application/vnd.api+json; charset=utf-8');
+// => {
+//   type: 'application',
+//   subtype: 'vnd.api+json',
+//   suffix: 'json',
+//   facet: 'vnd',
+//   parameters: MediaTypeParameters { 'charset' => 'utf-8' }
+// }
+```
+ */
+export function parseMediaType(value: string): MediaType {
+  const parsed = contentType.parse(value);
+  const [type, subtype] = parsed.type.split('/');
+  return createMediaType(type, subtype, new MediaTypeParameters(parsed.parameters));
+}
+
+const ESSENCE_REGEXP = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+\/[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+const PARAMETER_REGEXP =
+  // eslint-disable-next-line no-control-regex
+  /; *[!#$%&'*+.^_`|~0-9A-Za-z-]+ *= *(?:"(?:[\u000b\u0020\u0021\u0023-\u005b\u005d-\u007e\u0080-\u00ff]|\\[\u000b\u0020-\u00ff])*"|[!#$%&'*+.^_`|~0-9A-Za-z-]+) */y;
+
+/**
+ * Returns the `type/subtype` of the `value` in lower case, e.g. `text/html` for `Text/HTML; charset=utf-8`.
+ * The parameters are validated the same as by `parseMediaType()`, but they are not collected, which is
+ * faster when only the essence is needed. If the `value` is invalid, a `TypeError` is thrown.
+ */
+export function parseEssence(value: string): string {
+  const index = value.indexOf(';');
+  const essence = (index === -1 ? value : value.slice(0, index)).trim();
+  if (!ESSENCE_REGEXP.test(essence)) {
+    throw new TypeError('invalid media type');
+  }
+
+  if (index !== -1) {
+    let position = index;
+    PARAMETER_REGEXP.lastIndex = position;
+    while (PARAMETER_REGEXP.test(value)) {
+      position = PARAMETER_REGEXP.lastIndex;
+    }
+    if (position !== value.length) {
+      throw new TypeError('invalid parameter format');
+    }
+  }
+
+  return essence.toLowerCase();
+}
+
+/**
+ * A repair made by `parseMediaTypeLenient()`:
+ *
+ * - `empty-parameter` - an empty parameter, e.g. a trailing `;`, is skipped;
+ * - `missing-value` - a parameter without `=` or without a value is skipped;
+ * - `invalid-parameter` - a parameter whose name or value has invalid characters is skipped;
+ * - `unquoted-value` - a value that needs quotes, e.g. with spaces, is kept as is;
+ * - `duplicate-parameter` - a repeated parameter is skipped, the first one wins;
+ * - `unterminated-quote` - a quoted value without the closing quote ends with the input;
+ * - `trailing-characters` - characters after a quoted value are skipped;
+ * - `bare-type` - a file extension such as `json` is used instead of a media type.
+ */
+export type MediaTypeRepair =
+  | 'empty-parameter'
+  | 'missing-value'
+  | 'invalid-parameter'
+  | 'unquoted-value'
+  | 'duplicate-parameter'
+  | 'unterminated-quote'
+  | 'trailing-characters'
+  | 'bare-type';
+
+export interface LenientMediaType {
+  mediaType: MediaType;
+  /**
+   * The repairs made to the input, empty if it is a valid media type.
+   */
+  repairs: MediaTypeRepair[];
+}
+
+const TOKEN_REGEXP = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+const VALUE_REGEXP = /^[\u0020-\u007e\u0080-\u00ff]*$/;
+const LEADING_WHITESPACE_REGEXP = /^[\t\n\r ]+/;
+const TRAILING_WHITESPACE_REGEXP = /[\t\n\r ]+$/;
+
+/**
+ * Parses the `value` the same as `parseMediaType()` does, but repairs common mistakes of real-world clients
+ * instead of throwing, following the [WHATWG MIME type parsing](https://mimesniff.spec.whatwg.org/#parsing-a-mime-type)
+ * algorithm: a trailing `;`, parameters without values, unquoted values with spaces and so on.
+ * The repairs are reported, so that misbehaving clients can be logged. If the type or the subtype is invalid,
+ * a `TypeError` is thrown.
+ *
+ * The optional `lookup` function maps a bare file extension such as `json` to a media type.
+ *
+```ts
+parseMediaTypeLenient('application/json;charset=UTF-8;');
+// => { mediaType: { type: 'application', subtype: 'json', ... }, repairs: ['empty-parameter'] }
+```
+ */
+export function parseMediaTypeLenient(value: string, lookup?: (extension: string) => string | false): LenientMediaType {
+  try {
+    return { mediaType: parseMediaType(value), repairs: [] };
+  } catch (err) {
+    if (typeof value != 'string') {
+      throw err;
+    }
+  }
+
+  const input = value.replace(LEADING_WHITESPACE_REGEXP, '').replace(TRAILING_WHITESPACE_REGEXP, '');
+  const repairs = new Set<MediaTypeRepair>();
+
+  let end = input.indexOf(';');
+  if (end === -1) {
+    end = input.length;
+  }
+
+  const slash = input.indexOf('/');
+  if (slash === -1 || slash > end) {
+    // a bare file extension
+    const type = lookup?.(input.slice(0, end).replace(TRAILING_WHITESPACE_REGEXP, ''));
+    if (!type) {
+      throw new TypeError('invalid media type');
+    }
+    const result = parseMediaTypeLenient(type + input.slice(end));
+    return { mediaType: result.mediaType, repairs: ['bare-type', ...result.repairs] };
+  }
+
+  const type = input.slice(0, slash);
+  const subtype = input.slice(slash + 1, end).replace(TRAILING_WHITESPACE_REGEXP, '');
+  if (!TOKEN_REGEXP.test(type) || !TOKEN_REGEXP.test(subtype)) {
+    throw new TypeError('invalid media type');
+  }
+
+  const parameters = new MediaTypeParameters();
+  let position = end;
+
+  while (position < input.length) {
+    // skip ";" and whitespace
+    position++;
+    while (position < input.length && LEADING_WHITESPACE_REGEXP.test(input[position])) {
+      position++;
+    }
+
+    let nameEnd = position;
+    while (nameEnd < input.length && input[nameEnd] != ';' && input[nameEnd] != '=') {
+      nameEnd++;
+    }
+    const name = input.slice(position, nameEnd).toLowerCase();
+    position = nameEnd;
+
+    if (position >= input.length || input[position] == ';') {
+      repairs.add(name ? 'missing-value' : 'empty-parameter');
+      continue;
+    }
+
+    // skip "="
+    position++;
+
+    let parameterValue: string;
+    let quoted = false;
+    if (input[position] == '"') {
+      let closed: boolean;
+      [parameterValue, position, closed] = collectQuotedString(input, position);
+      if (!closed) {
+        repairs.add('unterminated-quote');
+      }
+
+      const next = indexOrEnd(input, ';', position);
+      if (next > position) {
+        repairs.add('trailing-characters');
+      }
+      position = next;
+      quoted = true;
+    } else {
+      const next = indexOrEnd(input, ';', position);
+      parameterValue = input.slice(position, next).replace(TRAILING_WHITESPACE_REGEXP, '');
+      position = next;
+
+      if (!parameterValue) {
+        repairs.add('missing-value');
+        continue;
+      }
+    }
+
+    if (!TOKEN_REGEXP.test(name) || !VALUE_REGEXP.test(parameterValue)) {
+      repairs.add('invalid-parameter');
+      continue;
+    }
+    if (parameters.has(name)) {
+      repairs.add('duplicate-parameter');
+      continue;
+    }
+    if (!quoted && !TOKEN_REGEXP.test(parameterValue)) {
+      repairs.add('unquoted-value');
+    }
+
+    parameters.set(name, parameterValue);
+  }
+
+  return {
+    mediaType: createMediaType(type.toLowerCase(), subtype.toLowerCase(), parameters),
+    repairs: Array.from(repairs),
+  };
+}
+
+/**
+ * Collects a quoted string that starts at the `position`, unescaping quoted pairs.
+ * Returns the value, the position after the closing quote, and whether the quote is closed.
+ */
+function collectQuotedString(input: string, position: number): [string, number, boolean] {
+  let value = '';
+
+  // skip the opening quote
+  position++;
+
+  while (position < input.length) {
+    const char = input[position++];
+    if (char == '"') {
+      return [value, position, true];
+    }
+    if (char == '\\' && position < input.length) {
+      value += input[position++];
+    } else {
+      value += char;
+    }
+  }
+
+  return [value, position, false];
+}
+
+function indexOrEnd(input: string, search: string, position: number): number {
+  const index = input.indexOf(search, position);
+  return index === -1 ? input.length : index;
+}
+
+/**
+ * Formats a `MediaType` (or any object with `type`, `subtype` and optional `parameters`) back to a string.
+ * Parameter values are quoted when needed. If the object is invalid, a `TypeError` is thrown.
+ *
+```ts
+formatMediaType({ type: 'text', subtype: 'html', parameters: { charset: 'utf-8' } });
+// => 'text/html; charset=utf-8'
+```
+ */
+export function formatMediaType(mediaType: MediaTypeInit): string {
+  if (!mediaType || typeof mediaType != 'object') {
+    throw new TypeError('argument mediaType is required');
+  }
+
+  const parameters = new MediaTypeParameters(mediaType.parameters);
+  return contentType.format({ type: `${mediaType.type}/${mediaType.subtype}`, parameters: parameters.toJSON() });
+}
+
+/**
+ * Checks if the `value` looks like a `MediaType` object.
+ */
+export function isMediaType(value: unknown): value is MediaType {
+  return (
+    typeof value == 'object' &&
+    value !== null &&
+    typeof (value as MediaType).type == 'string' &&
+    typeof (value as MediaType).subtype == 'string'
+  );
+}
+
+/**
+ * Validates a `MediaType` object that may be made by hand, e.g. with upper-case names or parameters
+ * as a plain object, and returns it in the form that `parseMediaType()` returns. If it is invalid,
+ * a `TypeError` is thrown.
+ */
+export function toMediaType(value: MediaTypeInit): MediaType {
+  formatMediaType(value);
+  const parameters = new MediaTypeParameters(value.parameters);
+  return createMediaType(value.type.toLowerCase(), value.subtype.toLowerCase(), parameters);
+}
+
+/**
+ * Returns the `type/subtype` part of the `mediaType` in lower case, without parameters.
+ */
+export function essenceOf(mediaType: Pick<MediaType, 'type' | 'subtype'>): string {
+  return `${mediaType.type}/${mediaType.subtype}`.toLowerCase();
+}
+
+/**
+ * Checks that each of the `expected` parameters is present in `actual`. Names are case-insensitive, as are
+ * the values of `charset`, other values are compared exactly. A value of `*` only requires the presence.
+ */
+export function matchParameters(expected: MediaTypeParameters, actual: MediaTypeParameters | null): boolean {
+  for (const [name, value] of expected) {
+    const actualValue = actual?.get(name);
+    if (actualValue === undefined) {
+      return false;
+    }
+    if (value === '*' || value === actualValue) {
+      continue;
+    }
+    if (name != 'charset' || value.toLowerCase() !== actualValue.toLowerCase()) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Creates a `MediaType` from already validated parts, detecting its suffix and facet.
+ */
+export function createMediaType(type: string, subtype: string, parameters: MediaTypeParameters): MediaType {
+  const mediaType: MediaType = { type, subtype, parameters };
+
+  const plusIndex = subtype.lastIndexOf('+');
+  if (plusIndex !== -1 && plusIndex < subtype.length - 1) {
+    mediaType.suffix = subtype.slice(plusIndex + 1);
+  }
+
+  const dotIndex = subtype.indexOf('.');
+  if (dotIndex !== -1) {
+    const facet = subtype.slice(0, dotIndex);
+    if (facet == 'vnd' || facet == 'prs' || facet == 'x') {
+      mediaType.facet = facet;
+    }
+  }
+
+  return mediaType;
+}
@@ -0,0 +1,39 @@
+import { mimeCharsetOf, mimeExtensionsOf, mimeTypeOf } from './mime-db.js';
+
+describe('mimeTypeOf()', function () {
+  it('should look up extensions and paths', function () {
+    expect(mimeTypeOf('json')).toBe('application/json');
+    expect(mimeTypeOf('.json')).toBe('application/json');
+    expect(mimeTypeOf('x/y.HTML')).toBe('text/html');
+    expect(mimeTypeOf('archive.tar.gz')).toBe('application/gzip');
+    expect(mimeTypeOf('dir/data.json/')).toBe('application/json');
+    expect(mimeTypeOf('unknown')).toBe(false);
+    expect(mimeTypeOf('file.')).toBe(false);
+    expect(mimeTypeOf('dir/.json')).toBe(false);
+  });
+
+  it('should prefer the same sources as mime-types', function () {
+    expect(mimeTypeOf('mp4')).toBe('video/mp4');
+    expect(mimeTypeOf('wav')).toBe('audio/wave');
+    expect(mimeTypeOf('rtf')).toBe('application/rtf');
+    expect(mimeTypeOf('xml')).toBe('application/xml');
+    expect(mimeTypeOf('exe')).toBe('application/x-msdos-program');
+    expect(mimeTypeOf('mjs')).toBe('application/javascript');
+  });
+});
+
+describe('mimeExtensionsOf()', function () {
+  it('should return the extensions of a type', function () {
+    expect(mimeExtensionsOf('application/json')).toEqual(['json', 'map']);
+    expect(mimeExtensionsOf('text/html')).toEqual(['html', 'htm', 'shtml']);
+    expect(mimeExtensionsOf('application/x-unknown')).toEqual([]);
+  });
+});
+
+describe('mimeCharsetOf()', function () {
+  it('should return the default charset of a type', function () {
+    expect(mimeCharsetOf('application/json')).toBe('UTF-8');
+    expect(mimeCharsetOf('text/x-unknown')).toBe('UTF-8');
+    expect(mimeCharsetOf('image/png')).toBe(false);
+  });
+});
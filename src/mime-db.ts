@@ -0,0 +1,57 @@
+import db from 'mime-db';
+
+/**
+ * The sources of `mime-db`, from the least to the most preferred when they map the same extension.
+ */
+const preference = ['nginx', 'apache', undefined, 'iana'];
+
+const types = new Map<string, string>();
+const extensions = new Map<string, readonly string[]>();
+
+for (const type of Object.keys(db)) {
+  const exts = db[type].extensions;
+  if (!exts || !exts.length) {
+    continue;
+  }
+  extensions.set(type, exts);
+
+  for (const extension of exts) {
+    const current = types.get(extension);
+    if (current && current != 'application/octet-stream') {
+      const from = preference.indexOf(db[current].source);
+      const to = preference.indexOf(db[type].source);
+      if (from > to || (from == to && current.startsWith('application/'))) {
+        continue;
+      }
+    }
+    types.set(extension, type);
+  }
+}
+
+/**
+ * Returns the media type for the file `extension` or path, e.g. `json`, `.json` or `dir/data.json`,
+ * or `false` if `mime-db` has no mapping. Picks the same type as `lookup()` of `mime-types` does,
+ * without the `path` module.
+ */
+export function mimeTypeOf(path: string): string | false {
+  const base = ('x.' + path).replace(/\/+$/, '');
+  const name = base.slice(base.lastIndexOf('/') + 1);
+  const index = name.lastIndexOf('.');
+  const extension = index > 0 ? name.slice(index + 1).toLowerCase() : '';
+  return (extension && types.get(extension)) || false;
+}
+
+/**
+ * Returns the file extensions of the lowercase media `type` known to `mime-db`, the preferred one first.
+ */
+export function mimeExtensionsOf(type: string): readonly string[] {
+  return extensions.get(type) || [];
+}
+
+/**
+ * Returns the default charset of the lowercase media `type`, e.g. `UTF-8` for `application/json`
+ * and for any `text/*` type, or `false` if there is none.
+ */
+export function mimeCharsetOf(type: string): string | false {
+  return db[type]?.charset || (type.startsWith('text/') && 'UTF-8');
+}
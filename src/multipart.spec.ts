@@ -0,0 +1,93 @@
+import { IncomingHttpHeaders } from 'http';
+import { createTypeMatcher } from './matcher.js';
+import { isValidBoundary, multipartInfo } from './multipart.js';
+import { typeIsDetailed } from './type-is-detailed.js';
+import { typeIs } from './type-is.js';
+
+describe('multipartInfo(headers)', function () {
+  it('should return subtype and boundary', function () {
+    expect(multipartInfo(createHeaders('multipart/form-data; boundary=----abc'))).toEqual({
+      valid: true,
+      subtype: 'form-data',
+      boundary: '----abc',
+    });
+    expect(multipartInfo(createHeaders('Multipart/Mixed; Boundary="gc0p4Jq0M2Yt08j34c0p"'))).toEqual({
+      valid: true,
+      subtype: 'mixed',
+      boundary: 'gc0p4Jq0M2Yt08j34c0p',
+    });
+  });
+
+  it('should report a missing boundary', function () {
+    expect(multipartInfo(createHeaders('multipart/form-data'))).toEqual({
+      valid: false,
+      subtype: 'form-data',
+      reason: 'missing-boundary',
+    });
+  });
+
+  it('should report an invalid boundary', function () {
+    expect(multipartInfo(createHeaders('multipart/form-data; boundary="a "'))).toEqual({
+      valid: false,
+      subtype: 'form-data',
+      reason: 'invalid-boundary',
+    });
+  });
+
+  it('should return null for other types', function () {
+    expect(multipartInfo(createHeaders('text/plain; boundary=abc'))).toBe(null);
+    expect(multipartInfo(createHeaders('bogus'))).toBe(null);
+    expect(multipartInfo(createHeaders())).toBe(null);
+  });
+});
+
+describe('isValidBoundary(boundary)', function () {
+  it('should follow RFC 2046', function () {
+    expect(isValidBoundary('a')).toBe(true);
+    expect(isValidBoundary('()+_,-./:=? x')).toBe(true);
+    expect(isValidBoundary('a'.repeat(70))).toBe(true);
+    expect(isValidBoundary('a'.repeat(71))).toBe(false);
+    expect(isValidBoundary('')).toBe(false);
+    expect(isValidBoundary('a ')).toBe(false);
+    expect(isValidBoundary('a;b')).toBe(false);
+    expect(isValidBoundary('a"b')).toBe(false);
+  });
+});
+
+describe('requireBoundary option', function () {
+  const options = { requireBoundary: true };
+
+  it('should reject multipart types without valid boundary', function () {
+    expect(typeIs(createHeaders('multipart/form-data; boundary=x'), ['multipart'], options)).toBe('multipart');
+    expect(typeIs(createHeaders('multipart/form-data'), ['multipart'], options)).toBe(false);
+    expect(typeIs(createHeaders(`multipart/form-data; boundary=${'a'.repeat(71)}`), ['multipart'], options)).toBe(
+      false,
+    );
+    expect(typeIs(createHeaders('multipart/form-data'), ['multipart'])).toBe('multipart');
+  });
+
+  it('should not affect other types', function () {
+    expect(typeIs(createHeaders('application/json'), ['multipart', 'json'], options)).toBe('json');
+  });
+
+  it('should be supported by createTypeMatcher()', function () {
+    const matcher = createTypeMatcher(['multipart'], options);
+    expect(matcher('multipart/form-data; boundary=x')).toBe('multipart');
+    expect(matcher('multipart/form-data')).toBe(false);
+  });
+
+  it('should be reported by typeIsDetailed()', function () {
+    expect(typeIsDetailed(createHeaders('multipart/form-data; boundary="a "'), ['multipart'], options)).toMatchObject({
+      matched: false,
+      reason: 'invalid-boundary',
+      boundary: 'a ',
+    });
+  });
+});
+
+function createHeaders(type?: string) {
+  return {
+    'content-type': type || undefined,
+    'transfer-encoding': 'chunked',
+  } as IncomingHttpHeaders;
+}
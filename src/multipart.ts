@@ -0,0 +1,83 @@
+import { HeadersInput, getHeader } from './headers.js';
+import { MediaType, parseMediaType } from './media-type.js';
+
+export interface ValidMultipart {
+  valid: true;
+  /**
+   * The subtype such as `form-data` or `mixed`.
+   */
+  subtype: string;
+  boundary: string;
+}
+
+export interface InvalidMultipart {
+  valid: false;
+  subtype: string;
+  reason: 'missing-boundary' | 'invalid-boundary';
+}
+
+/**
+ * The result of `multipartInfo()`, use `valid` to tell the cases apart.
+ */
+export type MultipartInfo = ValidMultipart | InvalidMultipart;
+
+/**
+ * The boundary grammar of [RFC 2046](https://www.rfc-editor.org/rfc/rfc2046#section-5.1.1):
+ * 1 to 70 characters from `bchars`, not ending with a space.
+ */
+const BOUNDARY_REGEXP = /^[0-9A-Za-z'()+_,\-./:=? ]{0,69}[0-9A-Za-z'()+_,\-./:=?]$/;
+
+/**
+ * Returns the subtype and the validated boundary of a `multipart/*` `Content-Type` of the `headers`,
+ * or `null` if the `Content-Type` is missing, invalid or not a multipart type.
+ *
+```ts
+multipartInfo({ 'content-type': 'multipart/form-data; boundary=----abc' });
+// => { valid: true, subtype: 'form-data', boundary: '----abc' }
+
+multipartInfo({ 'content-type': 'multipart/form-data' });
+// => { valid: false, subtype: 'form-data', reason: 'missing-boundary' }
+```
+ */
+export function multipartInfo(headers: HeadersInput): MultipartInfo | null {
+  const value = getHeader(headers, 'content-type');
+  if (!value) {
+    return null;
+  }
+
+  let mediaType: MediaType;
+  try {
+    mediaType = parseMediaType(value);
+  } catch {
+    return null;
+  }
+
+  return multipartInfoOf(mediaType);
+}
+
+/**
+ * Same as `multipartInfo()`, but for a parsed `mediaType`.
+ */
+export function multipartInfoOf(mediaType: MediaType): MultipartInfo | null {
+  if (mediaType.type != 'multipart') {
+    return null;
+  }
+
+  const { subtype } = mediaType;
+  const boundary = mediaType.parameters.get('boundary');
+  if (boundary === undefined) {
+    return { valid: false, subtype, reason: 'missing-boundary' };
+  }
+  if (!isValidBoundary(boundary)) {
+    return { valid: false, subtype, reason: 'invalid-boundary' };
+  }
+
+  return { valid: true, subtype, boundary };
+}
+
+/**
+ * Checks the `boundary` against the grammar of RFC 2046.
+ */
+export function isValidBoundary(boundary: string): boolean {
+  return BOUNDARY_REGEXP.test(boundary);
+}
@@ -0,0 +1,81 @@
+import { IncomingHttpHeaders } from 'http';
+import { negotiate, preferredType } from './negotiate.js';
+
+describe('negotiate(headers, available)', function () {
+  describe('when no Accept header is given', function () {
+    it('should return all types in order', function () {
+      expect(negotiate({}, ['json', 'html'])).toEqual(['json', 'html']);
+    });
+
+    it('should skip unknown types', function () {
+      expect(negotiate({}, ['bogus', 'html'])).toEqual(['html']);
+    });
+  });
+
+  describe('when Accept header is empty', function () {
+    it('should return no types', function () {
+      expect(negotiate(createHeaders(''), ['json', 'html'])).toEqual([]);
+    });
+  });
+
+  it('should rank by q-value', function () {
+    const headers = createHeaders('application/json;q=0.5, text/html');
+    expect(negotiate(headers, ['json', 'html'])).toEqual(['html', 'json']);
+  });
+
+  it('should exclude types with q=0', function () {
+    const headers = createHeaders('*/*, application/json;q=0');
+    expect(negotiate(headers, ['json', 'html'])).toEqual(['html']);
+  });
+
+  it('should use the most specific range', function () {
+    const headers = createHeaders('text/*;q=0.3, text/html;q=0.7, */*;q=0.5');
+    expect(negotiate(headers, ['txt', 'html', 'png'])).toEqual(['html', 'png', 'txt']);
+  });
+
+  it('should rank by specificity when q-values are equal', function () {
+    const headers = createHeaders('*/*, text/*, application/json');
+    expect(negotiate(headers, ['png', 'txt', 'json'])).toEqual(['json', 'txt', 'png']);
+  });
+
+  it('should match range parameters', function () {
+    const headers = createHeaders('text/html;level=1, text/html;q=0.4');
+    expect(negotiate(headers, ['text/html', 'text/html; level=1'])).toEqual(['text/html; level=1', 'text/html']);
+  });
+
+  it('should support shorthands', function () {
+    const headers = createHeaders('application/x-www-form-urlencoded, multipart/form-data;q=0.5');
+    expect(negotiate(headers, ['multipart', 'urlencoded'])).toEqual(['urlencoded', 'multipart/form-data']);
+  });
+
+  it('should support suffixes', function () {
+    const headers = createHeaders('application/ld+json, */*;q=0.1');
+    expect(negotiate(headers, ['html', '+json'])).toEqual(['application/ld+json', 'html']);
+    expect(negotiate(createHeaders('*/*'), ['+json'])).toEqual(['+json']);
+  });
+
+  it('should ignore invalid ranges', function () {
+    const headers = createHeaders('bogus, text/html;q=2, application/json;q=0.2');
+    expect(negotiate(headers, ['html', 'json'])).toEqual(['json']);
+  });
+
+  it('should ignore commas in quoted strings', function () {
+    const headers = createHeaders('text/html;foo="a,b";q=0.5, application/json');
+    expect(negotiate(headers, ['text/html; foo="a,b"', 'json'])).toEqual(['json', 'text/html; foo="a,b"']);
+  });
+});
+
+describe('preferredType(headers, available)', function () {
+  it('should return the most preferred type', function () {
+    const headers = createHeaders('application/json;q=0.9, text/html');
+    expect(preferredType(headers, ['json', 'html'])).toBe('html');
+  });
+
+  it('should return false when no type is acceptable', function () {
+    expect(preferredType(createHeaders('text/html'), ['png'])).toBe(false);
+  });
+});
+
+function createHeaders(accept: string) {
+  return { accept } as IncomingHttpHeaders;
+}
@@ -0,0 +1,160 @@
+import { HeadersInput, getHeader, splitHeaderList } from './headers.js';
+import { MediaType, essenceOf, parseMediaType } from './media-type.js';
+import { TypeRegistry, defaultRegistry } from './registry.js';
+import { TypeIsOptions, mimeMatch } from './type-is.js';
+
+interface AcceptRange {
+  mediaType: MediaType;
+  q: number;
+  index: number;
+  specificity: number;
+}
+
+interface Candidate {
+  type: string;
+  q: number;
+  specificity: number;
+  rangeIndex: number;
+  index: number;
+}
+
+const QVALUE_REGEXP = /^(?:0(?:\.\d{0,3})?|1(?:\.0{0,3})?)$/;
+
+/**
+ * Returns the `available` types that are acceptable according to the `Accept` header of the `headers`,
+ * ranked from the most preferred to the least preferred. If there is no `Accept` header, then all
+ * `available` types are returned in their original order.
+ *
+ * Each type in the `available` array can be anything that `is()` accepts: a file extension name
+ * such as `json`, a mime type, a wildcard or a suffix such as `+json`. The entry is returned as is,
+ * unless it is a wildcard or a suffix that matched a concrete media range of the `Accept` header,
+ * in which case that media type is returned.
+ *
+ * The types are ranked by the quality value (`q`) of the most specific media range matching them,
+ * then by specificity of that range, then by the order of the ranges in the `Accept` header, and
+ * finally by the order of the `available` array. Types with `q=0` are not acceptable.
+ *
+```ts
+// const headers = { accept: 'text/html, application/*;q=0.8, * /*;q=0.1' };
+
+negotiate(headers, ['json', 'html', 'png']); // => ['html', 'json', 'png']
+negotiate(headers, ['+json']); // => ['+json']
+negotiate({ accept: 'application/ld+json' }, ['+json']); // => ['application/ld+json']
+```
+ */
+export function negotiate(headers: HeadersInput, available: string[], options?: TypeIsOptions): string[] {
+  const registry = options?.registry || defaultRegistry;
+  const value = getHeader(headers, 'accept');
+  const ranges = parseAccept(value ?? '*/*', registry);
+  const candidates: Candidate[] = [];
+
+  for (let index = 0; index < available.length; index++) {
+    const candidate = matchRanges(available[index], index, ranges, registry);
+    if (candidate && candidate.q > 0) {
+      candidates.push(candidate);
+    }
+  }
+
+  return candidates.sort(compareCandidates).map((candidate) => candidate.type);
+}
+
+/**
+ * Returns the most preferred of the `available` types according to the `Accept` header of the `headers`,
+ * or `false` if none of them is acceptable. See `negotiate()` for details.
+ *
+```ts
+// const headers = { accept: 'application/json;q=0.9, text/html' };
+
+preferredType(headers, ['json', 'html']); // => 'html'
+preferredType(headers, ['png']); // => false
+```
+ */
+export function preferredType(headers: HeadersInput, available: string[], options?: TypeIsOptions): string | false {
+  const [type] = negotiate(headers, available, options);
+  return type ?? false;
+}
+
+function parseAccept(value: string, registry: TypeRegistry): AcceptRange[] {
+  const ranges: AcceptRange[] = [];
+  const list = splitHeaderList(value);
+
+  for (let index = 0; index < list.length; index++) {
+    let mediaType: MediaType;
+    try {
+      mediaType = parseMediaType(list[index]);
+    } catch {
+      // ignore invalid media range
+      continue;
+    }
+
+    const q = mediaType.parameters.get('q');
+    if (q !== undefined && !QVALUE_REGEXP.test(q)) {
+      continue;
+    }
+    mediaType.parameters.delete('q');
+
+    ranges.push({
+      mediaType: registry.resolve(mediaType),
+      q: q === undefined ? 1 : Number(q),
+      index,
+      specificity: getSpecificity(mediaType),
+    });
+  }
+
+  return ranges;
+}
+
+function getSpecificity(mediaType: MediaType): number {
+  if (mediaType.type == '*') {
+    return 0;
+  }
+  if (mediaType.subtype[0] == '*') {
+    return 1;
+  }
+  return 2 + mediaType.parameters.size;
+}
+
+function matchRanges(type: string, index: number, ranges: AcceptRange[], registry: TypeRegistry): Candidate | null {
+  const normalized = registry.normalize(type);
+  if (!normalized) {
+    return null;
+  }
+
+  let mediaType: MediaType;
+  try {
+    mediaType = parseMediaType(normalized);
+  } catch {
+    return null;
+  }
+
+  // wildcards and suffixes can also match in the opposite direction
+  const isPattern = type[0] === '+' || normalized.indexOf('*') !== -1;
+
+  let best: AcceptRange | undefined;
+  for (const range of ranges) {
+    if (best && best.specificity >= range.specificity) {
+      continue;
+    }
+    if (mimeMatch(range.mediaType, mediaType) || (isPattern && mimeMatch(mediaType, range.mediaType))) {
+      best = range;
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  const isConcrete = best.specificity > 1 && best.mediaType.subtype.indexOf('*') === -1;
+
+  return {
+    type: isPattern && isConcrete ? essenceOf(best.mediaType) : type,
+    q: best.q,
+    specificity: best.specificity,
+    rangeIndex: best.index,
+    index,
+  };
+}
+
+function compareCandidates(a: Candidate, b: Candidate): number {
+  return b.q - a.q || b.specificity - a.specificity || a.rangeIndex - b.rangeIndex || a.index - b.index;
+}
@@ -0,0 +1,74 @@
+import { expandPattern, matchSubtype, tryExpandPattern } from './pattern.js';
+
+describe('expandPattern(pattern)', function () {
+  it('should return a pattern without braces as is', function () {
+    expect(expandPattern('json')).toEqual(['json']);
+    expect(expandPattern('application/*+json')).toEqual(['application/*+json']);
+  });
+
+  it('should expand alternatives', function () {
+    expect(expandPattern('application/{json,xml}')).toEqual(['application/json', 'application/xml']);
+    expect(expandPattern('{text,application}/{json, xml}')).toEqual([
+      'text/json',
+      'text/xml',
+      'application/json',
+      'application/xml',
+    ]);
+    expect(expandPattern('{json,html}')).toEqual(['json', 'html']);
+  });
+
+  it('should remove the negation', function () {
+    expect(expandPattern('!text/html')).toEqual(['text/html']);
+    expect(expandPattern('!text/{html,xml}')).toEqual(['text/html', 'text/xml']);
+  });
+
+  it('should explain invalid patterns', function () {
+    expect(() => expandPattern('!!json')).toThrow(new TypeError('Invalid pattern "!!json": double negation'));
+    expect(() => expandPattern('!')).toThrow(new TypeError('Invalid pattern "!": empty pattern'));
+    expect(() => expandPattern('text/html}')).toThrow(new TypeError('Invalid pattern "text/html}": unexpected "}"'));
+    expect(() => expandPattern('text/{html')).toThrow(new TypeError('Invalid pattern "text/{html": unclosed "{"'));
+    expect(() => expandPattern('text/{a,{b,c}}')).toThrow(
+      new TypeError('Invalid pattern "text/{a,{b,c}}": nested braces are not supported'),
+    );
+    expect(() => expandPattern('text/{html,}')).toThrow(
+      new TypeError('Invalid pattern "text/{html,}": empty alternative in "{html,}"'),
+    );
+    expect(() => expandPattern(null as any)).toThrow(new TypeError('Invalid pattern: not a string'));
+  });
+
+  it('should limit the number of alternatives', function () {
+    const group = '{a,b,c,d,e,f,g,h,i}';
+    expect(expandPattern(`text/${group}`)).toHaveLength(9);
+    expect(() => expandPattern(`${group}/${group}`)).toThrow(/more than 64 alternatives/);
+  });
+});
+
+describe('tryExpandPattern(pattern)', function () {
+  it('should cache the alternatives', function () {
+    const alternatives = tryExpandPattern('application/{json,xml}');
+    expect(alternatives).toEqual(['application/json', 'application/xml']);
+    expect(tryExpandPattern('application/{json,xml}')).toBe(alternatives);
+  });
+
+  it('should return an empty array for malformed patterns', function () {
+    expect(tryExpandPattern('application/{json')).toEqual([]);
+    expect(tryExpandPattern('application/{json')).toEqual([]);
+  });
+});
+
+describe('matchSubtype(pattern, subtype)', function () {
+  it('should match wildcards anywhere', function () {
+    expect(matchSubtype('*', 'json')).toBe(true);
+    expect(matchSubtype('vnd.myco.*', 'vnd.myco.item+json')).toBe(true);
+    expect(matchSubtype('vnd.*+json', 'vnd.api+json')).toBe(true);
+    expect(matchSubtype('*+json', 'vnd.api+json')).toBe(true);
+    expect(matchSubtype('vnd.myco.*', 'vnd.other.item')).toBe(false);
+    expect(matchSubtype('vnd.*+json', 'vnd.api+xml')).toBe(false);
+  });
+
+  it('should match other characters literally', function () {
+    expect(matchSubtype('vnd.a.*', 'vnd-a-b')).toBe(false);
+    expect(matchSubtype('json', 'json')).toBe(true);
+    expect(matchSubtype('json', 'xml')).toBe(false);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * The most alternatives a single pattern can expand to, to keep a mistyped pattern from blowing up.
+ */
+const MAX_ALTERNATIVES = 64;
+
+/**
+ * Checks if the acceptable `pattern` is an exclusion such as `!text/html`.
+ */
+export function isNegated(pattern: string): boolean {
+  return typeof pattern == 'string' && pattern[0] === '!';
+}
+
+/**
+ * Expands the brace alternations of an acceptable `pattern`, e.g. `application/{json,xml}` to
+ * `application/json` and `application/xml`. The leading `!` of an exclusion is removed. If the pattern
+ * is malformed, a `TypeError` with the explanation is thrown.
+ *
+```ts
+expandPattern('application/{json,xml}'); // => ['application/json', 'application/xml']
+expandPattern('!text/{html,xml}'); // => ['text/html', 'text/xml']
+expandPattern('application/{json'); // throws TypeError: Invalid pattern "application/{json": unclosed "{"
+```
+ */
+export function expandPattern(pattern: string): string[] {
+  if (typeof pattern != 'string') {
+    throw new TypeError('Invalid pattern: not a string');
+  }
+
+  let rest = pattern;
+  if (isNegated(rest)) {
+    rest = rest.slice(1);
+    if (isNegated(rest)) {
+      throw new TypeError(`Invalid pattern "${pattern}": double negation`);
+    }
+  }
+  if (!rest.trim()) {
+    throw new TypeError(`Invalid pattern "${pattern}": empty pattern`);
+  }
+
+  let alternatives = [''];
+  let position = 0;
+
+  while (position < rest.length) {
+    const open = rest.indexOf('{', position);
+    const close = rest.indexOf('}', position);
+    if (close !== -1 && (open === -1 || close < open)) {
+      throw new TypeError(`Invalid pattern "${pattern}": unexpected "}"`);
+    }
+    if (open === -1) {
+      alternatives = alternatives.map((prefix) => prefix + rest.slice(position));
+      break;
+    }
+    if (close === -1) {
+      throw new TypeError(`Invalid pattern "${pattern}": unclosed "{"`);
+    }
+
+    const group = rest.slice(open + 1, close);
+    if (group.indexOf('{') !== -1) {
+      throw new TypeError(`Invalid pattern "${pattern}": nested braces are not supported`);
+    }
+
+    const options = group.split(',').map((option) => option.trim());
+    if (options.some((option) => !option)) {
+      throw new TypeError(`Invalid pattern "${pattern}": empty alternative in "{${group}}"`);
+    }
+    if (alternatives.length * options.length > MAX_ALTERNATIVES) {
+      throw new TypeError(`Invalid pattern "${pattern}": more than ${MAX_ALTERNATIVES} alternatives`);
+    }
+
+    const head = rest.slice(position, open);
+    alternatives = alternatives.flatMap((prefix) => options.map((option) => prefix + head + option));
+    position = close + 1;
+  }
+
+  return alternatives;
+}
+
+const expansionCache = new Map<string, readonly string[]>();
+
+/**
+ * Same as `expandPattern()`, but returns an empty array instead of throwing. The alternatives are cached,
+ * since the same patterns are checked on each request.
+ */
+export function tryExpandPattern(pattern: string): readonly string[] {
+  let alternatives = expansionCache.get(pattern);
+  if (!alternatives) {
+    try {
+      alternatives = expandPattern(pattern);
+    } catch {
+      alternatives = [];
+    }
+    if (expansionCache.size >= 100) {
+      expansionCache.clear();
+    }
+    expansionCache.set(pattern, alternatives);
+  }
+  return alternatives;
+}
+
+/**
+ * Checks if the `pattern` is not returned as is when it matches, because it can match several types.
+ */
+export function returnsActual(pattern: string): boolean {
+  return pattern[0] === '+' || pattern.indexOf('*') !== -1 || pattern.indexOf('{') !== -1;
+}
+
+/**
+ * Matches a `subtype` against a `pattern` where `*` matches any characters, e.g. `vnd.myco.*+json`.
+ */
+export function matchSubtype(pattern: string, subtype: string): boolean {
+  if (pattern === '*' || pattern === subtype) {
+    return true;
+  }
+  if (pattern.indexOf('*') === -1) {
+    return false;
+  }
+  return globToRegExp(pattern).test(subtype);
+}
+
+const globCache = new Map<string, RegExp>();
+
+function globToRegExp(pattern: string): RegExp {
+  let regexp = globCache.get(pattern);
+  if (!regexp) {
+    const source = pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    regexp = new RegExp(`^${source}$`);
+    if (globCache.size >= 100) {
+      globCache.clear();
+    }
+    globCache.set(pattern, regexp);
+  }
+  return regexp;
+}
@@ -0,0 +1,217 @@
+import { createTypePolicy } from './policy.js';
+
+describe('createTypePolicy(options)', function () {
+  const policy = createTypePolicy({
+    routes: {
+      'POST /upload': { accept: ['multipart'], requireBody: true },
+      'put /items': { accept: ['json'], charsets: ['utf-8'], maxParams: 1 },
+      '* /any': { accept: ['text/*'] },
+    },
+    requireBoundary: true,
+  });
+
+  describe('validation', function () {
+    it('should throw on unknown types', function () {
+      expect(() => createTypePolicy({ routes: { 'POST /': { accept: ['json', 'bogus'] } } })).toThrow(
+        new TypeError('Unknown type: bogus'),
+      );
+      expect(() => createTypePolicy({ routes: { 'POST /': { accept: ['text/html/'] } } })).toThrow(
+        new TypeError('Invalid type: text/html/'),
+      );
+    });
+
+    it('should throw on invalid routes', function () {
+      expect(() => createTypePolicy({ routes: { '/upload': { accept: ['json'] } } })).toThrow(
+        new TypeError('Invalid route: /upload'),
+      );
+      expect(() =>
+        createTypePolicy({ routes: { 'POST /': { accept: ['json'] }, 'post /': { accept: ['html'] } } }),
+      ).toThrow(new TypeError('Duplicate route: post /'));
+    });
+
+    it('should throw on invalid options', function () {
+      expect(() => createTypePolicy({ routes: { 'POST /': { accept: ['json'], charsets: ['bogus'] } } })).toThrow(
+        new TypeError('Unknown charset: bogus'),
+      );
+      expect(() => createTypePolicy({ routes: { 'POST /': { accept: ['json'], maxParams: -1 } } })).toThrow(
+        new TypeError('Invalid maxParams of route: POST /'),
+      );
+      expect(() => createTypePolicy({ routes: { 'POST /': {} as any } })).toThrow(
+        new TypeError('Invalid accept of route: POST /'),
+      );
+    });
+
+    it('should expose routes', function () {
+      expect(policy.routes).toEqual(['POST /upload', 'put /items', '* /any']);
+    });
+  });
+
+  describe('check(req)', function () {
+    it('should allow requests of other routes', function () {
+      expect(policy.check(createRequest('GET', '/upload', {}))).toEqual({ allowed: true, route: null, type: null });
+      expect(policy.check(createRequest('POST', '/other', { 'content-type': 'text/html' }))).toEqual({
+        allowed: true,
+        route: null,
+        type: null,
+      });
+    });
+
+    it('should normalize request paths', function () {
+      const expected = { allowed: false, route: 'POST /upload', status: 415, reason: 'unsupported-type' };
+      for (const url of ['/upload', '/upload/', '/UPLOAD', '//upload', '/up%6coad', '/upload?a=1', '/a/../upload']) {
+        expect(policy.check(createRequest('POST', url, { 'content-type': 'text/html' }))).toMatchObject(expected);
+      }
+      expect(policy.check(createRequest('POST', '/upload/x', { 'content-type': 'text/html' }))).toMatchObject({
+        allowed: true,
+        route: null,
+      });
+    });
+
+    it('should normalize route paths', function () {
+      const policy = createTypePolicy({ routes: { 'POST /Upload/': { accept: ['json'] } } });
+      expect(policy.check(createRequest('POST', '/upload', { 'content-type': 'text/html' }))).toMatchObject({
+        allowed: false,
+        route: 'POST /Upload/',
+      });
+      expect(() =>
+        createTypePolicy({ routes: { 'POST /a': { accept: ['json'] }, 'POST /A/': { accept: ['html'] } } }),
+      ).toThrow(new TypeError('Duplicate route: POST /A/'));
+    });
+
+    it('should accept Fetch API requests', function () {
+      const request = new Request('http://localhost/upload', {
+        method: 'POST',
+        headers: { 'content-type': 'text/html' },
+        body: '<p></p>',
+      });
+      expect(policy.check(request)).toMatchObject({ allowed: false, route: 'POST /upload', status: 415 });
+    });
+
+    it('should reject requests of other routes with the requireRoute option', function () {
+      const policy = createTypePolicy({ requireRoute: true, routes: { 'POST /upload': { accept: ['json'] } } });
+      expect(policy.check(createRequest('POST', '/other', { 'content-type': 'application/json' }))).toMatchObject({
+        allowed: false,
+        route: null,
+        status: 404,
+        reason: 'no-route',
+      });
+      expect(policy.check(createRequest('POST', '/upload/', { 'content-type': 'application/json' }))).toEqual({
+        allowed: true,
+        route: 'POST /upload',
+        type: 'json',
+      });
+    });
+
+    it('should allow acceptable types', function () {
+      const headers = { 'content-type': 'multipart/form-data; boundary=abc' };
+      expect(policy.check(createRequest('POST', '/upload?a=b', headers))).toEqual({
+        allowed: true,
+        route: 'POST /upload',
+        type: 'multipart',
+      });
+      expect(policy.check(createRequest('DELETE', '/any', { 'content-type': 'text/plain' }))).toMatchObject({
+        allowed: true,
+        route: '* /any',
+        type: 'text/plain',
+      });
+    });
+
+    it('should reject a missing body with 411', function () {
+      expect(policy.check({ method: 'POST', url: '/upload', headers: {} })).toMatchObject({
+        allowed: false,
+        route: 'POST /upload',
+        status: 411,
+        reason: 'body-required',
+      });
+      expect(policy.check({ method: 'PUT', url: '/items', headers: {} })).toEqual({
+        allowed: true,
+        route: 'put /items',
+        type: null,
+      });
+    });
+
+    it('should reject invalid requests with 400', function () {
+      expect(
+        policy.check({
+          method: 'PUT',
+          url: '/items',
+          headers: { 'content-length': '1', 'transfer-encoding': 'chunked' },
+        }),
+      ).toMatchObject({ status: 400, reason: 'invalid-framing', body: { reason: 'conflicting-headers' } });
+      expect(policy.check(createRequest('PUT', '/items', { 'content-type': 'json/' }))).toMatchObject({
+        status: 400,
+        reason: 'invalid-content-type',
+      });
+      expect(
+        policy.check(createRequest('PUT', '/items', { 'content-type': 'application/json; charset=utf-8; a=b' })),
+      ).toMatchObject({ status: 400, reason: 'too-many-parameters' });
+      expect(policy.check(createRequest('POST', '/upload', { 'content-type': 'multipart/form-data' }))).toMatchObject({
+        status: 400,
+        reason: 'invalid-boundary',
+      });
+    });
+
+    it('should reject unsupported types with 415', function () {
+      expect(policy.check(createRequest('PUT', '/items', { 'content-type': 'text/html' }))).toMatchObject({
+        status: 415,
+        reason: 'unsupported-type',
+        result: { reason: 'mismatch' },
+      });
+      expect(
+        policy.check(createRequest('PUT', '/items', { 'content-type': 'application/json; charset=latin1' })),
+      ).toMatchObject({ status: 415, reason: 'unsupported-charset' });
+      expect(policy.check(createRequest('PUT', '/items', {}))).toMatchObject({
+        status: 415,
+        reason: 'no-content-type',
+      });
+    });
+
+    it('should reject unsupported encodings with 415', function () {
+      const policy = createTypePolicy({
+        encodings: ['identity'],
+        routes: {
+          'POST /upload': { accept: ['json'], encodings: ['gzip', 'identity'] },
+          'PUT /items': { accept: ['json'] },
+        },
+      });
+      const headers = { 'content-type': 'application/json', 'content-encoding': 'gzip' };
+
+      expect(policy.check(createRequest('POST', '/upload', headers))).toMatchObject({ allowed: true, type: 'json' });
+      expect(policy.check(createRequest('PUT', '/items', headers))).toMatchObject({
+        status: 415,
+        reason: 'unsupported-encoding',
+        result: { acceptEncoding: 'identity' },
+      });
+    });
+
+    it('should use HTTP/2 pseudo-headers', function () {
+      const headers = { ':method': 'PUT', ':path': '/items', 'content-type': 'application/json' };
+      expect(policy.check({ headers })).toEqual({ allowed: true, route: 'put /items', type: 'json' });
+    });
+
+    it('should use the END_STREAM hint of HTTP/2 requests', function () {
+      const headers = { ':method': 'POST', ':path': '/upload', 'content-type': 'multipart/form-data; boundary=x' };
+      expect(policy.check({ headers, stream: { endAfterHeaders: true } })).toMatchObject({
+        allowed: false,
+        status: 411,
+        reason: 'body-required',
+      });
+      expect(policy.check({ headers, stream: { endAfterHeaders: false } })).toMatchObject({ allowed: true });
+    });
+
+    it('should detect duplicate Content-Type values of raw headers', function () {
+      const policy = createTypePolicy({ duplicates: 'reject', routes: { 'POST /up': { accept: ['html'] } } });
+      const req = {
+        method: 'POST',
+        url: '/up',
+        headers: { 'content-type': 'text/html', 'content-length': '2' },
+        rawHeaders: ['Content-Type', 'text/html', 'Content-Type', 'application/json', 'Content-Length', '2'],
+      };
+      expect(policy.check(req)).toMatchObject({ allowed: false, status: 400, reason: 'duplicate-content-type' });
+    });
+  });
+});
+
+function createRequest(method: string, url: string, headers: Record<string, string>) {
+  return { method, url, headers: { 'content-length': '2', ...headers } };
+}
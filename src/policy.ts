@@ -0,0 +1,278 @@
+import { BodyInfo, detectBody } from './body.js';
+import { normalizeCharset } from './charset.js';
+import { MessageLike, getHeader } from './headers.js';
+import { createTypeMatcher } from './matcher.js';
+import { TypeIsResult, typeIsDetailed } from './type-is-detailed.js';
+import { TypeIsOptions } from './type-is.js';
+
+/**
+ * The content type policy of a route.
+ */
+export interface RoutePolicy {
+  /**
+   * The acceptable types, the same as for `typeIs()`.
+   */
+  accept: string[];
+  /**
+   * The maximum number of `Content-Type` parameters.
+   */
+  maxParams?: number;
+  /**
+   * The allowed charsets, see the `charsets` option of `typeIs()`. Overrides the one of the policy.
+   */
+  charsets?: string[];
+  /**
+   * The acceptable content codings, see the `encodings` option of `typeIs()`. Overrides the one of the policy.
+   */
+  encodings?: string[];
+  /**
+   * If `true`, a request without a body is rejected with 411 Length Required. Defaults to `false`,
+   * a request without a body is allowed.
+   */
+  requireBody?: boolean;
+}
+
+export interface TypePolicyOptions extends TypeIsOptions {
+  /**
+   * The policies by routes such as `POST /upload`. The method can be `*` to match any method. Paths are
+   * compared without the query string, percent-decoded, with duplicate and trailing slashes removed,
+   * and case-insensitively, so `/upload/`, `//UPLOAD` and `/up%6Coad` are all `/upload`.
+   */
+  routes: Record<string, RoutePolicy>;
+  /**
+   * If `true`, a request that matches no route is rejected with 404 Not Found. Defaults to `false`,
+   * such a request is allowed.
+   */
+  requireRoute?: boolean;
+}
+
+/**
+ * A request as seen by the policy: Node.js `IncomingMessage`, `Http2ServerRequest`, Fetch API `Request`
+ * or anything with `headers`. The `url` can be a path or an absolute URL. The method and the path of HTTP/2
+ * requests default to their pseudo-headers. The `rawHeaders`, `headersDistinct` and `stream` of the request
+ * are used the same as by `typeIs()`.
+ */
+export interface PolicyRequest extends MessageLike {
+  method?: string;
+  url?: string;
+}
+
+/**
+ * Why a request is rejected by the policy:
+ *
+ * - `invalid-framing` - the body framing is invalid, see `detectBody()` (400);
+ * - `body-required` - the route requires a body, but there is none (411);
+ * - `invalid-content-type` - the `Content-Type` cannot be parsed (400);
+ * - `duplicate-content-type` - several `Content-Type` values are rejected by the `duplicates` option (400);
+ * - `too-many-parameters` - the `Content-Type` has more parameters than `maxParams` (400);
+ * - `invalid-boundary` - the multipart boundary is missing or invalid, with the `requireBoundary` option (400);
+ * - `no-content-type` - the request has a body but no `Content-Type` (415);
+ * - `unsupported-type` - the `Content-Type` is not one of the acceptable types (415);
+ * - `unsupported-charset` - the charset is not one of the allowed charsets (415);
+ * - `unsupported-encoding` - a content coding is not one of the `encodings` option (415), respond with
+ *   the `Accept-Encoding` header of the `result`;
+ * - `no-route` - the request matches no route, with the `requireRoute` option (404).
+ */
+export type PolicyRejectionReason =
+  | 'invalid-framing'
+  | 'body-required'
+  | 'invalid-content-type'
+  | 'duplicate-content-type'
+  | 'too-many-parameters'
+  | 'invalid-boundary'
+  | 'no-content-type'
+  | 'unsupported-type'
+  | 'unsupported-charset'
+  | 'unsupported-encoding'
+  | 'no-route';
+
+export interface PolicyAllowed {
+  allowed: true;
+  /**
+   * The route that matched, or `null` if the request is not covered by any route.
+   */
+  route: string | null;
+  /**
+   * The same value that `typeIs()` returns, `null` if the request has no body or is not covered by any route.
+   */
+  type: string | null;
+}
+
+export interface PolicyRejected {
+  allowed: false;
+  /**
+   * The route that matched, or `null` if the request is rejected because it matches no route.
+   */
+  route: string | null;
+  status: 400 | 404 | 411 | 415;
+  reason: PolicyRejectionReason;
+  /**
+   * The framing of the body, see `detectBody()`.
+   */
+  body: BodyInfo;
+  /**
+   * The result of `typeIsDetailed()`, if the `Content-Type` was checked.
+   */
+  result?: TypeIsResult;
+}
+
+/**
+ * The decision of a policy, use `allowed` to tell the cases apart.
+ */
+export type PolicyDecision = PolicyAllowed | PolicyRejected;
+
+export interface TypePolicy {
+  /**
+   * Decides whether the request is allowed by the policy of its route.
+   */
+  check(req: PolicyRequest): PolicyDecision;
+  /**
+   * The routes of the policy.
+   */
+  readonly routes: readonly string[];
+}
+
+interface CompiledRoute {
+  route: string;
+  policy: RoutePolicy;
+  options: TypeIsOptions;
+}
+
+const ROUTE_REGEXP = /^([A-Za-z]+|\*)\s+(\/\S*)$/;
+
+/**
+ * Creates a policy that checks the body and the `Content-Type` of requests by their routes. All acceptable
+ * types, charsets and routes are validated up front, so a mistake in the configuration throws a `TypeError`
+ * at startup instead of rejecting all requests later. The decision tells the status to respond with:
+ * 400 Bad Request, 411 Length Required or 415 Unsupported Media Type.
+ *
+```ts
+const policy = createTypePolicy({
+  routes: {
+    'POST /upload': { accept: ['multipart'], requireBody: true },
+    'PUT /items': { accept: ['json'], charsets: ['utf-8'], maxParams: 1 },
+  },
+});
+
+const decision = policy.check(req);
+if (!decision.allowed) {
+  logger.warn(decision);
+  res.statusCode = decision.status;
+  res.end();
+}
+```
+ */
+export function createTypePolicy(options: TypePolicyOptions): TypePolicy {
+  const { routes, requireRoute, ...defaults } = options;
+  const compiled = new Map<string, CompiledRoute>();
+
+  for (const [route, policy] of Object.entries(routes)) {
+    const match = ROUTE_REGEXP.exec(route.trim());
+    if (!match) {
+      throw new TypeError(`Invalid route: ${route}`);
+    }
+    const key = `${match[1].toUpperCase()} ${normalizePath(match[2])}`;
+    if (compiled.has(key)) {
+      throw new TypeError(`Duplicate route: ${route}`);
+    }
+    if (!Array.isArray(policy?.accept)) {
+      throw new TypeError(`Invalid accept of route: ${route}`);
+    }
+    if (policy.maxParams !== undefined && !(Number.isInteger(policy.maxParams) && policy.maxParams >= 0)) {
+      throw new TypeError(`Invalid maxParams of route: ${route}`);
+    }
+
+    const routeOptions = {
+      ...defaults,
+      charsets: policy.charsets ?? defaults.charsets,
+      encodings: policy.encodings ?? defaults.encodings,
+    };
+    for (const charset of routeOptions.charsets || []) {
+      if (!normalizeCharset(charset)) {
+        throw new TypeError(`Unknown charset: ${charset}`);
+      }
+    }
+
+    // validate the acceptable types
+    createTypeMatcher(policy.accept, routeOptions);
+
+    compiled.set(key, { route, policy, options: routeOptions });
+  }
+
+  function check(req: PolicyRequest): PolicyDecision {
+    const method = (req.method ?? getHeader(req.headers, ':method') ?? 'GET').toUpperCase();
+    const path = normalizePath(req.url ?? getHeader(req.headers, ':path') ?? '/');
+
+    const entry = compiled.get(`${method} ${path}`) || compiled.get(`* ${path}`);
+    if (!entry) {
+      if (requireRoute) {
+        return { allowed: false, route: null, status: 404, reason: 'no-route', body: detectBody(req, { method }) };
+      }
+      return { allowed: true, route: null, type: null };
+    }
+
+    const { route, policy } = entry;
+    const body = detectBody(req, { method });
+    if (body.status == 'invalid') {
+      return { allowed: false, route, status: 400, reason: 'invalid-framing', body };
+    }
+
+    const result = body.status == 'no-body' ? null : typeIsDetailed(req, policy.accept, entry.options);
+    if (!result || result.reason == 'no-body') {
+      if (policy.requireBody) {
+        return { allowed: false, route, status: 411, reason: 'body-required', body };
+      }
+      return { allowed: true, route, type: null };
+    }
+
+    if (
+      policy.maxParams !== undefined &&
+      'mediaType' in result &&
+      result.mediaType.parameters.size > policy.maxParams
+    ) {
+      return { allowed: false, route, status: 400, reason: 'too-many-parameters', body, result };
+    }
+
+    switch (result.reason) {
+      case 'match':
+        return { allowed: true, route, type: result.value };
+      case 'invalid-content-type':
+      case 'duplicate-content-type':
+      case 'invalid-boundary':
+        return { allowed: false, route, status: 400, reason: result.reason, body, result };
+      case 'no-content-type':
+      case 'unsupported-charset':
+      case 'unsupported-encoding':
+        return { allowed: false, route, status: 415, reason: result.reason, body, result };
+    }
+
+    return { allowed: false, route, status: 415, reason: 'unsupported-type', body, result };
+  }
+
+  return { check, routes: Object.freeze(Object.keys(routes)) };
+}
+
+/**
+ * Returns the path of the `url` (a path or an absolute URL) in the form that routes are compared in:
+ * percent-decoded and lower-cased, without the query string, duplicate and trailing slashes.
+ */
+function normalizePath(url: string): string {
+  let path: string;
+  try {
+    // a path such as "//upload" is not a protocol-relative URL here
+    path = new URL(url[0] == '/' ? `http://localhost${url}` : url, 'http://localhost').pathname;
+  } catch {
+    path = url.replace(/[?#].*$/, '');
+  }
+
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // malformed percent-encoding, compare as is
+  }
+
+  return path
+    .replace(/\/{2,}/g, '/')
+    .replace(/(.)\/$/, '$1')
+    .toLowerCase();
+}
@@ -0,0 +1,112 @@
+import { IncomingHttpHeaders } from 'http';
+import { TypeRegistry } from './registry.js';
+import { createTypeIs } from './create-type-is.js';
+import { createTypeMatcher } from './matcher.js';
+import { parseMediaType } from './media-type.js';
+import { is, normalize, typeIs } from './type-is.js';
+
+describe('TypeRegistry', function () {
+  it('should keep built-in shorthands', function () {
+    const registry = new TypeRegistry();
+    expect(registry.normalize('urlencoded')).toBe('application/x-www-form-urlencoded');
+    expect(registry.normalize('multipart')).toBe('multipart/*');
+    expect(registry.normalize('json')).toBe('application/json');
+    expect(registry.normalize('+json')).toBe('*/*+json');
+    expect(registry.normalize('unknown')).toBe(false);
+  });
+
+  it('should define custom shorthands', function () {
+    const registry = new TypeRegistry({ shorthands: { jsonapi: 'application/vnd.api+json' } });
+    expect(registry.normalize('jsonapi')).toBe('application/vnd.api+json');
+    expect(registry.normalize('jsonapi; charset=utf-8')).toBe('application/vnd.api+json; charset=utf-8');
+
+    registry.defineShorthand('form', 'multipart/form-data');
+    expect(registry.normalize('form')).toBe('multipart/form-data');
+  });
+
+  it('should override extension mappings', function () {
+    const registry = new TypeRegistry({ extensions: { js: 'text/javascript', '.foo': 'application/x-foo' } });
+    expect(registry.normalize('js')).toBe('text/javascript');
+    expect(registry.normalize('.js')).toBe('text/javascript');
+    expect(registry.normalize('foo')).toBe('application/x-foo');
+    expect(registry.lookup('dir/file.foo')).toBe('application/x-foo');
+    expect(registry.lookup('png')).toBe('image/png');
+  });
+
+  it('should resolve aliases', function () {
+    const registry = new TypeRegistry({ aliases: { 'application/x-javascript': 'text/javascript' } });
+    expect(registry.normalize('application/x-javascript')).toBe('text/javascript');
+    expect(registry.resolveAlias('Application/X-JavaScript')).toBe('text/javascript');
+    expect(registry.resolveAlias('text/html')).toBe('text/html');
+  });
+
+  it('should list extensions of a type', function () {
+    const registry = new TypeRegistry({
+      extensions: { mjs: 'text/javascript', jsx: 'application/javascript' },
+      aliases: { 'application/javascript': 'text/javascript' },
+    });
+    expect(registry.extensionsOf('text/javascript')).toEqual(['mjs', 'jsx', 'js']);
+    expect(registry.extensionsOf('image/png')).toEqual(['png']);
+    expect(new TypeRegistry({ extensions: { htm: 'text/x-htm' } }).extensionsOf('text/html')).toEqual([
+      'html',
+      'shtml',
+    ]);
+    expect(registry.extensionsOf('application/x-unknown')).toEqual([]);
+  });
+
+  it('should be used by is(), typeIs() and normalize()', function () {
+    const registry = new TypeRegistry({
+      shorthands: { jsonapi: 'application/vnd.api+json' },
+      aliases: { 'application/x-javascript': 'text/javascript' },
+    });
+    const headers = { 'content-type': 'application/vnd.api+json', 'content-length': '2' } as IncomingHttpHeaders;
+
+    expect(normalize('jsonapi', registry)).toBe('application/vnd.api+json');
+    expect(typeIs(headers, ['jsonapi'], { registry })).toBe('jsonapi');
+    expect(is('application/x-javascript', ['text/javascript'], { registry })).toBe('text/javascript');
+    expect(is('application/x-javascript; charset=utf-8', ['text/*'], { registry })).toBe('text/javascript');
+    expect(is('text/javascript', ['application/x-javascript'], { registry })).toBe('application/x-javascript');
+  });
+
+  it('should match shorthands with parameters', function () {
+    const registry = new TypeRegistry({ shorthands: { csvh: 'text/csv; header=present' } });
+    const headers = { 'content-type': 'text/csv; header=present', 'content-length': '2' } as IncomingHttpHeaders;
+
+    expect(is('text/csv; header=present', ['csvh'], { registry })).toBe('csvh');
+    expect(is(parseMediaType('text/csv; header=present'), ['csvh'], { registry })).toBe('csvh');
+    expect(typeIs(headers, ['csvh'], { registry })).toBe('csvh');
+    expect(createTypeMatcher(['csvh'], { registry })('text/csv; header=present')).toBe('csvh');
+    expect(is('text/csv', ['csvh'], { registry })).toBe(false);
+    expect(is('text/csv; header=absent', ['!csvh'], { registry })).toBe('text/csv');
+  });
+
+  it('should not leak into other registries', function () {
+    new TypeRegistry({ shorthands: { jsonapi: 'application/vnd.api+json' } }).defineShorthand('x', 'text/x');
+    expect(new TypeRegistry().normalize('jsonapi')).toBe(false);
+    expect(normalize('jsonapi')).toBe(false);
+    expect(is('application/vnd.api+json', ['jsonapi'])).toBe(false);
+  });
+});
+
+describe('createTypeIs(options)', function () {
+  it('should bind functions to its own registry', function () {
+    const api = createTypeIs({
+      shorthands: { jsonapi: 'application/vnd.api+json' },
+      aliases: { 'application/x-javascript': 'text/javascript' },
+    });
+    const headers = { 'content-type': 'application/vnd.api+json', 'content-length': '2' } as IncomingHttpHeaders;
+
+    expect(api.normalize('jsonapi')).toBe('application/vnd.api+json');
+    expect(api.is('application/x-javascript', ['text/*'])).toBe('text/javascript');
+    expect(api.typeIs(headers, ['jsonapi'])).toBe('jsonapi');
+    expect(api.createTypeMatcher(['jsonapi'])(headers)).toBe('jsonapi');
+    expect(createTypeIs({ extensions: { js: 'text/javascript' } }).typeForPath('app.js')).toBe('text/javascript');
+    expect(createTypeIs({ extensions: { js: 'text/javascript' } }).extensionFor('text/javascript')).toBe('js');
+    expect(api.preferredType({ accept: 'application/vnd.api+json' }, ['json', 'jsonapi'])).toBe('jsonapi');
+  });
+
+  it('should not affect other instances', function () {
+    createTypeIs({ shorthands: { jsonapi: 'application/vnd.api+json' } });
+    expect(createTypeIs().normalize('jsonapi')).toBe(false);
+  });
+});
@@ -0,0 +1,190 @@
+import { MediaType, createMediaType, essenceOf } from './media-type.js';
+import { mimeExtensionsOf, mimeTypeOf } from './mime-db.js';
+
+/**
+ * Options for `TypeRegistry` and `createTypeIs()`.
+ */
+export interface TypeRegistryOptions {
+  /**
+   * Custom shorthands, e.g. `{ jsonapi: 'application/vnd.api+json' }`. They take precedence over
+   * the built-in shorthands and the file extensions.
+   */
+  shorthands?: Record<string, string>;
+  /**
+   * Custom file extension mappings, e.g. `{ js: 'text/javascript' }`. They take precedence over
+   * the mappings of the `mime-db` package.
+   */
+  extensions?: Record<string, string>;
+  /**
+   * Media types that should be treated as other media types, e.g.
+   * `{ 'application/x-javascript': 'text/javascript' }`. They apply to both the actual media type
+   * and the acceptable types.
+   */
+  aliases?: Record<string, string>;
+}
+
+const builtinShorthands: Record<string, string> = {
+  urlencoded: 'application/x-www-form-urlencoded',
+  multipart: 'multipart/*',
+};
+
+/**
+ * Holds shorthands, file extension mappings and media type aliases used by `normalize()`,
+ * `is()`, `typeIs()` and the other functions that accept a `registry` option. Each registry is
+ * independent from the others, so settings of one app do not leak into another one.
+ *
+```ts
+const registry = new TypeRegistry({
+  shorthands: { jsonapi: 'application/vnd.api+json' },
+  aliases: { 'application/x-javascript': 'text/javascript' },
+});
+
+registry.normalize('jsonapi'); // => 'application/vnd.api+json'
+is('application/x-javascript', ['text/javascript'], { registry }); // => 'text/javascript'
+```
+ */
+export class TypeRegistry {
+  protected shorthands = new Map<string, string>();
+  protected extensions = new Map<string, string>();
+  protected aliases = new Map<string, string>();
+
+  constructor(options: TypeRegistryOptions = {}) {
+    for (const [name, type] of Object.entries(builtinShorthands)) {
+      this.defineShorthand(name, type);
+    }
+    for (const [name, type] of Object.entries(options.shorthands || {})) {
+      this.defineShorthand(name, type);
+    }
+    for (const [extension, type] of Object.entries(options.extensions || {})) {
+      this.defineExtension(extension, type);
+    }
+    for (const [alias, type] of Object.entries(options.aliases || {})) {
+      this.defineAlias(alias, type);
+    }
+  }
+
+  /**
+   * Defines a shorthand `name` that `normalize()` expands to the `type`.
+   */
+  defineShorthand(name: string, type: string): this {
+    this.shorthands.set(name, type);
+    return this;
+  }
+
+  /**
+   * Maps the file `extension` (with or without a leading dot) to the media `type`.
+   */
+  defineExtension(extension: string, type: string): this {
+    this.extensions.set(extension.replace(/^\./, '').toLowerCase(), type.toLowerCase());
+    return this;
+  }
+
+  /**
+   * Makes the media type `alias` to be treated as the media `type`.
+   */
+  defineAlias(alias: string, type: string): this {
+    this.aliases.set(alias.toLowerCase(), type.toLowerCase());
+    return this;
+  }
+
+  /**
+   * Returns the media type for the file `extension` or path, or `false` if there is no mapping.
+   */
+  lookup(extension: string): string | false {
+    const name = extension.replace(/^.*[./\\]/, '').toLowerCase();
+    const type = this.extensions.get(name) || mimeTypeOf(extension);
+    return type && this.resolveAlias(type);
+  }
+
+  /**
+   * Returns the file extensions of the media `type` without a leading dot, the custom ones first, or
+   * an empty array if there are none. Extensions that this registry maps to another type are left out.
+   */
+  extensionsOf(type: string): string[] {
+    const essence = this.resolveAlias(type.toLowerCase());
+    const list: string[] = [];
+
+    for (const [extension, mapped] of this.extensions) {
+      if (this.resolveAlias(mapped) === essence) {
+        list.push(extension);
+      }
+    }
+
+    // the type itself and the types that are its aliases
+    const sources = [essence];
+    for (const [alias, resolved] of this.aliases) {
+      if (resolved === essence) {
+        sources.push(alias);
+      }
+    }
+    for (const source of sources) {
+      for (const extension of mimeExtensionsOf(source)) {
+        if (!this.extensions.has(extension)) {
+          list.push(extension);
+        }
+      }
+    }
+
+    return Array.from(new Set(list));
+  }
+
+  /**
+   * Returns the media type the `type` is an alias of, or the `type` itself.
+   */
+  resolveAlias(type: string): string {
+    return this.aliases.get(type.toLowerCase()) || type;
+  }
+
+  /**
+   * Returns the `mediaType` with its type and subtype replaced by the media type it is an alias of,
+   * or the `mediaType` itself if it is not an alias.
+   */
+  resolve(mediaType: MediaType): MediaType {
+    if (!this.aliases.size) {
+      return mediaType;
+    }
+
+    const essence = essenceOf(mediaType);
+    const resolved = this.aliases.get(essence);
+    if (!resolved) {
+      return mediaType;
+    }
+
+    const [type, subtype] = resolved.split('/');
+    return createMediaType(type, subtype, mediaType.parameters);
+  }
+
+  /**
+   * Normalizes the `type` the same as the `normalize()` function does, using this registry.
+   */
+  normalize(type: string): string | false | null {
+    if (typeof type != 'string') {
+      // invalid type
+      return false;
+    }
+
+    const index = type.indexOf(';');
+    if (index !== -1) {
+      // normalize the type and keep the parameters
+      const normalized = this.normalize(type.slice(0, index).trim());
+      return normalized && normalized + type.slice(index);
+    }
+
+    const shorthand = this.shorthands.get(type);
+    if (shorthand !== undefined) {
+      return shorthand;
+    }
+
+    if (type[0] === '+') {
+      // "+json" -> "*/*+json" expando
+      return '*/*' + type;
+    }
+
+    return type.indexOf('/') === -1 ? this.lookup(type) : this.resolveAlias(type);
+  }
+}
+
+/**
+ * The registry with the built-in shorthands only, used when no `registry` option is given.
+ */
+export const defaultRegistry = new TypeRegistry();
@@ -0,0 +1,222 @@
+import http, { IncomingHttpHeaders } from 'http';
+import { AddressInfo } from 'net';
+import { requireType } from './require-type.js';
+
+describe('requireType(acceptable, options)', function () {
+  it('should throw on unknown types', function () {
+    expect(() => requireType(['json', 'bogus'])).toThrow(TypeError);
+  });
+
+  describe('check(req)', function () {
+    it('should allow acceptable types', function () {
+      const guard = requireType(['json']);
+      expect(guard.check(createRequest('POST', 'application/json'))).toEqual({ allowed: true, type: 'json' });
+    });
+
+    it('should skip requests without body', function () {
+      const guard = requireType(['json']);
+      expect(guard.check({ method: 'POST', headers: {} })).toEqual({ allowed: true, type: null });
+    });
+
+    it('should reject requests without body on demand', function () {
+      const guard = requireType(['json'], { missingBody: 'reject' });
+      expect(guard.check({ method: 'POST', headers: {} })).toMatchObject({ allowed: false, status: 415 });
+    });
+
+    it('should reject other types with Accept-Post', function () {
+      const guard = requireType(['json', 'urlencoded', '+json', 'application/json']);
+      expect(guard.check(createRequest('POST', 'text/html'))).toMatchObject({
+        allowed: false,
+        status: 415,
+        headers: {
+          'Accept-Post': 'application/json, application/x-www-form-urlencoded',
+          'Content-Type': 'text/plain; charset=utf-8',
+        },
+        body: 'Unsupported Media Type: text/html is not supported',
+      });
+    });
+
+    it('should list only media ranges of extended patterns', function () {
+      const guard = requireType(['application/{json,xml}', 'application/vnd.myco.*', 'text/*', '!text/html']);
+      expect(guard.check(createRequest('POST', 'text/html'))).toMatchObject({
+        allowed: false,
+        headers: { 'Accept-Post': 'application/json, application/xml, text/*' },
+      });
+    });
+
+    it('should choose the Accept header by method', function () {
+      const guard = requireType(['json']);
+      expect(guard.check(createRequest('PATCH', 'text/html'))).toMatchObject({
+        headers: { 'Accept-Patch': 'application/json' },
+      });
+      expect(guard.check(createRequest('PUT', 'text/html'))).toMatchObject({
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+      });
+      expect(requireType(['json'], { acceptHeader: false }).check(createRequest('POST', 'text/html'))).toMatchObject({
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+      });
+    });
+
+    it('should respond with problem+json', function () {
+      const guard = requireType(['json'], { problemJson: true });
+      const decision = guard.check(createRequest('POST', 'bogus'));
+      expect(decision).toMatchObject({
+        allowed: false,
+        headers: { 'Content-Type': 'application/problem+json' },
+      });
+      expect(!decision.allowed && JSON.parse(decision.body)).toEqual({
+        type: 'about:blank',
+        title: 'Unsupported Media Type',
+        status: 415,
+        detail: 'the Content-Type is invalid',
+      });
+    });
+
+    it('should pass options to typeIs()', function () {
+      const guard = requireType(['json'], { charsets: ['utf-8'] });
+      expect(guard.check(createRequest('POST', 'application/json; charset=latin1'))).toMatchObject({
+        allowed: false,
+        body: 'Unsupported Media Type: the charset latin1 is not supported',
+      });
+    });
+
+    it('should reject duplicate Content-Type values of raw headers', function () {
+      const req = {
+        ...createRequest('POST', 'text/html'),
+        rawHeaders: ['Content-Type', 'text/html', 'Content-Type', 'application/json', 'Content-Length', '2'],
+      };
+      expect(requireType(['html'], { duplicates: 'reject' }).check(req)).toMatchObject({
+        allowed: false,
+        body: 'Unsupported Media Type: the request has several Content-Type values',
+      });
+      expect(requireType(['html']).check(req)).toMatchObject({ allowed: true, type: 'html' });
+    });
+
+    it('should reject unsupported encodings with Accept-Encoding', function () {
+      const guard = requireType(['json'], { encodings: ['gzip', 'identity'] });
+      const req = createRequest('POST', 'application/json');
+      req.headers['content-encoding'] = 'br';
+      expect(guard.check(req)).toMatchObject({
+        allowed: false,
+        status: 415,
+        headers: { 'Accept-Post': 'application/json', 'Accept-Encoding': 'gzip, identity' },
+        body: 'Unsupported Media Type: the content coding br is not supported',
+      });
+      expect(
+        requireType(['json'], { encodings: ['gzip'] }).check(createRequest('PUT', 'application/json')),
+      ).toMatchObject({
+        headers: { 'Accept-Encoding': 'gzip' },
+        body: 'Unsupported Media Type: the request body must be encoded',
+      });
+    });
+  });
+
+  describe('node(req, res)', function () {
+    it('should respond with 415 via node:http', async function () {
+      const guard = requireType(['json']);
+      const server = http.createServer((req, res) => {
+        if (guard.node(req, res)) {
+          res.end('ok');
+        }
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const url = `http://localhost:${(server.address() as AddressInfo).port}/`;
+
+      try {
+        const rejected = await fetch(url, { method: 'POST', headers: { 'content-type': 'text/html' }, body: '<p>' });
+        expect(rejected.status).toBe(415);
+        expect(rejected.headers.get('accept-post')).toBe('application/json');
+        expect(await rejected.text()).toBe('Unsupported Media Type: text/html is not supported');
+
+        const allowed = await fetch(url, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: '{}',
+        });
+        expect(allowed.status).toBe(200);
+        expect(await allowed.text()).toBe('ok');
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+
+  describe('connect(req, res, next)', function () {
+    it('should call next for acceptable types', function () {
+      const guard = requireType(['json']);
+      const res = createResponse();
+      let called = false;
+
+      guard.connect(createRequest('POST', 'application/json'), res, () => (called = true));
+      expect(called).toBe(true);
+      expect(res.body).toBeUndefined();
+    });
+
+    it('should respond for other types', function () {
+      const guard = requireType(['json']);
+      const res = createResponse();
+      let called = false;
+
+      guard.connect(createRequest('POST', 'text/html'), res, () => (called = true));
+      expect(called).toBe(false);
+      expect(res.statusCode).toBe(415);
+      expect(res.headers).toEqual({ 'Accept-Post': 'application/json', 'Content-Type': 'text/plain; charset=utf-8' });
+      expect(res.body).toBe('Unsupported Media Type: text/html is not supported');
+    });
+  });
+
+  describe('koa(ctx, next)', function () {
+    it('should call next for acceptable types', async function () {
+      const guard = requireType(['json']);
+      const ctx = createContext('POST', 'application/json');
+
+      expect(await guard.koa(ctx, async () => 'next')).toBe('next');
+      expect(ctx.status).toBe(404);
+    });
+
+    it('should respond for other types', async function () {
+      const guard = requireType(['json']);
+      const ctx = createContext('POST', 'text/html');
+      let called = false;
+
+      await guard.koa(ctx, async () => (called = true));
+      expect(called).toBe(false);
+      expect(ctx.status).toBe(415);
+      expect(ctx.headers).toEqual({ 'Accept-Post': 'application/json', 'Content-Type': 'text/plain; charset=utf-8' });
+      expect(ctx.body).toBe('Unsupported Media Type: text/html is not supported');
+    });
+  });
+});
+
+function createRequest(method: string, type: string) {
+  const headers = { 'content-type': type, 'content-length': '2' } as IncomingHttpHeaders;
+  return { method, headers };
+}
+
+function createResponse() {
+  const headers: Record<string, string> = {};
+  return {
+    statusCode: 200,
+    headers,
+    body: undefined as string | undefined,
+    setHeader(name: string, value: string) {
+      headers[name] = value;
+    },
+    end(body?: string) {
+      this.body = body;
+    },
+  };
+}
+
+function createContext(method: string, type: string) {
+  const headers: Record<string, string> = {};
+  return {
+    req: createRequest(method, type),
+    status: 404,
+    body: undefined as unknown,
+    headers,
+    set(name: string, value: string) {
+      headers[name] = value;
+    },
+  };
+}
@@ -0,0 +1,244 @@
+import { MessageLike, getHeader } from './headers.js';
+import { createTypeMatcher } from './matcher.js';
+import { essenceOf } from './media-type.js';
+import { expandPattern, isNegated } from './pattern.js';
+import { defaultRegistry } from './registry.js';
+import { TypeIsResult, typeIsDetailed } from './type-is-detailed.js';
+import { TypeIsOptions } from './type-is.js';
+
+export interface RequireTypeOptions extends TypeIsOptions {
+  /**
+   * What to do with a request that has no body: `skip` lets it through, `reject` responds with 415.
+   * Defaults to `skip`.
+   */
+  missingBody?: 'skip' | 'reject';
+  /**
+   * The name of the header that lists the acceptable types in a 415 response. By default it is
+   * `Accept-Post` for `POST` requests and `Accept-Patch` for `PATCH` requests
+   * (see [RFC 5789](https://www.rfc-editor.org/rfc/rfc5789#section-3.1)), and none for other methods.
+   * Use `false` to never send it.
+   */
+  acceptHeader?: string | false;
+  /**
+   * If `true`, a 415 response has an `application/problem+json` body as described in
+   * [RFC 9457](https://www.rfc-editor.org/rfc/rfc9457). Defaults to `false`, a plain text body.
+   */
+  problemJson?: boolean;
+}
+
+/**
+ * A request as seen by the guard: Node.js `IncomingMessage`, WHATWG `Request` or anything with `headers`.
+ * The `rawHeaders`, `headersDistinct` and `stream` of the request are used the same as by `typeIs()`.
+ */
+export interface GuardRequest extends MessageLike {
+  method?: string;
+}
+
+/**
+ * A response as seen by the guard, such as Node.js `ServerResponse`.
+ */
+export interface GuardResponse {
+  statusCode: number;
+  setHeader(name: string, value: string): unknown;
+  end(body?: string): unknown;
+}
+
+/**
+ * A Koa-style context.
+ */
+export interface GuardContext {
+  req: GuardRequest;
+  status: number;
+  body: unknown;
+  set(name: string, value: string): unknown;
+}
+
+export interface GuardAllowed {
+  allowed: true;
+  /**
+   * The same value that `typeIs()` returns, `null` if the request has no body.
+   */
+  type: string | null;
+}
+
+export interface GuardRejected {
+  allowed: false;
+  status: 415;
+  headers: Record<string, string>;
+  body: string;
+  result: TypeIsResult;
+}
+
+/**
+ * The decision of a guard, use `allowed` to tell the cases apart.
+ */
+export type GuardDecision = GuardAllowed | GuardRejected;
+
+export interface TypeGuard {
+  /**
+   * Decides whether the request is allowed, without responding.
+   */
+  check(req: GuardRequest): GuardDecision;
+  /**
+   * For raw `node:http` handlers: responds with 415 and returns `false` if the request is rejected,
+   * otherwise returns `true`.
+   */
+  node(req: GuardRequest, res: GuardResponse): boolean;
+  /**
+   * Connect/Express-style middleware.
+   */
+  connect(req: GuardRequest, res: GuardResponse, next: (err?: any) => void): void;
+  /**
+   * Koa-style middleware.
+   */
+  koa(ctx: GuardContext, next: () => Promise<unknown>): Promise<unknown>;
+}
+
+/**
+ * Creates a guard that responds with 415 Unsupported Media Type to requests whose `Content-Type`
+ * is not one of the `acceptable` types. The `acceptable` types are validated up front, so an unknown
+ * one throws a `TypeError` right away. The 415 response lists the acceptable types in the `Accept-Post`
+ * or `Accept-Patch` header, and the acceptable content codings of the `encodings` option in the
+ * `Accept-Encoding` header.
+ *
+```ts
+const guard = requireType(['json', 'urlencoded'], { problemJson: true });
+
+// node:http
+http.createServer((req, res) => {
+  if (!guard.node(req, res)) {
+    return;
+  }
+  // ...
+});
+
+// Express or Connect
+app.post('/items', guard.connect, handler);
+
+// Koa
+app.use(guard.koa);
+```
+ */
+export function requireType(acceptable: string[], options: RequireTypeOptions = {}): TypeGuard {
+  // validate the acceptable types
+  createTypeMatcher(acceptable, options);
+
+  const registry = options.registry || defaultRegistry;
+  const acceptValue = Array.from(
+    new Set(
+      acceptable
+        .filter((pattern) => !isNegated(pattern))
+        .flatMap((pattern) => expandPattern(pattern).map((type) => registry.normalize(type) as string))
+        .filter(isMediaRange),
+    ),
+  ).join(', ');
+
+  function check(req: GuardRequest): GuardDecision {
+    const result = typeIsDetailed(req, acceptable, options);
+
+    if (result.matched) {
+      return { allowed: true, type: result.value };
+    }
+    if (result.reason == 'no-body' && options.missingBody != 'reject') {
+      return { allowed: true, type: null };
+    }
+
+    const headers: Record<string, string> = {};
+    const acceptHeader = options.acceptHeader ?? defaultAcceptHeader(req.method ?? getHeader(req, ':method'));
+    if (acceptHeader && acceptValue) {
+      headers[acceptHeader] = acceptValue;
+    }
+    if (result.reason == 'unsupported-encoding') {
+      headers['Accept-Encoding'] = result.acceptEncoding;
+    }
+
+    const detail = describe(result);
+    let body: string;
+    if (options.problemJson) {
+      headers['Content-Type'] = 'application/problem+json';
+      body = JSON.stringify({ type: 'about:blank', title: 'Unsupported Media Type', status: 415, detail });
+    } else {
+      headers['Content-Type'] = 'text/plain; charset=utf-8';
+      body = `Unsupported Media Type: ${detail}`;
+    }
+
+    return { allowed: false, status: 415, headers, body, result };
+  }
+
+  function node(req: GuardRequest, res: GuardResponse): boolean {
+    const decision = check(req);
+    if (decision.allowed) {
+      return true;
+    }
+
+    res.statusCode = decision.status;
+    for (const [name, value] of Object.entries(decision.headers)) {
+      res.setHeader(name, value);
+    }
+    res.end(decision.body);
+    return false;
+  }
+
+  return {
+    check,
+    node,
+    connect(req, res, next) {
+      if (node(req, res)) {
+        next();
+      }
+    },
+    async koa(ctx, next) {
+      const decision = check(ctx.req);
+      if (decision.allowed) {
+        return next();
+      }
+
+      ctx.status = decision.status;
+      for (const [name, value] of Object.entries(decision.headers)) {
+        ctx.set(name, value);
+      }
+      ctx.body = decision.body;
+      return undefined;
+    },
+  };
+}
+
+/**
+ * Checks if the `type` can be listed in `Accept-Post`, which allows only `type/subtype`, `type/*` and `* /*`.
+ */
+function isMediaRange(type: string): boolean {
+  const subtype = type.split(';')[0].split('/')[1].trim();
+  return subtype == '*' || subtype.indexOf('*') === -1;
+}
+
+function defaultAcceptHeader(method?: string): string | false {
+  switch (method?.toUpperCase()) {
+    case 'POST':
+      return 'Accept-Post';
+    case 'PATCH':
+      return 'Accept-Patch';
+  }
+  return false;
+}
+
+function describe(result: TypeIsResult): string {
+  switch (result.reason) {
+    case 'no-body':
+      return 'the request has no body';
+    case 'no-content-type':
+      return 'the request has no Content-Type';
+    case 'invalid-content-type':
+      return 'the Content-Type is invalid';
+    case 'unsupported-charset':
+      return `the charset ${result.mediaType.parameters.get('charset')} is not supported`;
+    case 'invalid-boundary':
+      return 'the multipart boundary is missing or invalid';
+    case 'duplicate-content-type':
+      return 'the request has several Content-Type values';
+    case 'unsupported-encoding':
+      return result.unsupported[0] == 'identity'
+        ? 'the request body must be encoded'
+        : `the content coding ${result.unsupported.join(', ')} is not supported`;
+  }
+  return `${essenceOf(result.mediaType)} is not supported`;
+}
@@ -0,0 +1,69 @@
+import http, { OutgoingHttpHeaders } from 'http';
+import { TypeRegistry } from './registry.js';
+import { contentTypeFor, responseTypeIs } from './response.js';
+
+describe('responseTypeIs(res, acceptable, options)', function () {
+  it('should check a ServerResponse', function () {
+    const res = new http.ServerResponse(new http.IncomingMessage(null as any));
+    expect(responseTypeIs(res, ['html'])).toBeNull();
+
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    expect(responseTypeIs(res, ['json', 'html'])).toBe('html');
+    expect(responseTypeIs(res, ['text/*'])).toBe('text/html');
+    expect(responseTypeIs(res)).toBe('text/html');
+    expect(responseTypeIs(res, ['json'])).toBe(false);
+  });
+
+  it('should check OutgoingHttpHeaders', function () {
+    const headers: OutgoingHttpHeaders = { 'content-type': 'application/json', 'content-length': 2 };
+    expect(responseTypeIs(headers, ['json'])).toBe('json');
+    expect(responseTypeIs({ 'content-type': ['application/json'] }, ['+json', 'json'])).toBe('json');
+    expect(responseTypeIs({ 'content-length': 2 }, ['json'])).toBeNull();
+    expect(responseTypeIs({ 'content-type': 2 }, ['json'])).toBe(false);
+  });
+
+  it('should check a Fetch Response', function () {
+    expect(responseTypeIs(new Response('{}'), ['text/*'])).toBe('text/plain');
+    expect(responseTypeIs(Response.json({}), ['json'])).toBe('json');
+    expect(responseTypeIs(new Response(null), ['json'])).toBeNull();
+  });
+
+  it('should pass options to is()', function () {
+    const headers = { 'content-type': 'text/html; charset=latin1' };
+    expect(responseTypeIs(headers, ['html'], { charsets: ['utf-8'] })).toBe(false);
+  });
+});
+
+describe('contentTypeFor(type, options)', function () {
+  it('should add the default charset', function () {
+    expect(contentTypeFor('json')).toBe('application/json; charset=utf-8');
+    expect(contentTypeFor('html')).toBe('text/html; charset=utf-8');
+    expect(contentTypeFor('application/problem+json')).toBe('application/problem+json; charset=utf-8');
+    expect(contentTypeFor('urlencoded')).toBe('application/x-www-form-urlencoded; charset=utf-8');
+  });
+
+  it('should not add a charset to binary types', function () {
+    expect(contentTypeFor('png')).toBe('image/png');
+    expect(contentTypeFor('.zip')).toBe('application/zip');
+  });
+
+  it('should use the charset option', function () {
+    expect(contentTypeFor('html', { charset: 'latin1' })).toBe('text/html; charset=latin1');
+    expect(contentTypeFor('json', { charset: false })).toBe('application/json');
+    expect(contentTypeFor('text/plain; charset=latin1')).toBe('text/plain; charset=latin1');
+    expect(contentTypeFor('text/plain; charset=latin1', { charset: false })).toBe('text/plain');
+  });
+
+  it('should return false for unknown and wildcard types', function () {
+    expect(contentTypeFor('bogus')).toBe(false);
+    expect(contentTypeFor('multipart')).toBe(false);
+    expect(contentTypeFor('+json')).toBe(false);
+    expect(contentTypeFor('text/*')).toBe(false);
+    expect(contentTypeFor('text/html/')).toBe(false);
+  });
+
+  it('should use the registry', function () {
+    const registry = new TypeRegistry({ shorthands: { jsonapi: 'application/vnd.api+json' } });
+    expect(contentTypeFor('jsonapi', { registry })).toBe('application/vnd.api+json; charset=utf-8');
+  });
+});
@@ -0,0 +1,114 @@
+import { charsetOfMediaType } from './charset.js';
+import { HeadersInput, getHeader } from './headers.js';
+import { MediaType, essenceOf, formatMediaType, parseMediaType } from './media-type.js';
+import { mimeCharsetOf } from './mime-db.js';
+import { TypeRegistry, defaultRegistry } from './registry.js';
+import { TypeIsOptions, is } from './type-is.js';
+
+/**
+ * A response with a `getHeader()` method, such as Node.js `ServerResponse`.
+ */
+export interface OutgoingMessageLike {
+  getHeader(name: string): number | string | readonly string[] | undefined;
+}
+
+/**
+ * Any form of response headers that `responseTypeIs()` accepts: a Node.js `ServerResponse`, the object
+ * returned by `res.getHeaders()` (`OutgoingHttpHeaders`), a WHATWG Fetch `Response` or `Headers`,
+ * or anything else that `typeIs()` accepts.
+ */
+export type ResponseInput = OutgoingMessageLike | HeadersInput;
+
+export interface ContentTypeForOptions {
+  /**
+   * The charset to add. By default, the charset is added to the types that have a default one,
+   * such as `text/*` and JSON types. Use `false` to never add it.
+   */
+  charset?: string | false;
+  /**
+   * The registry of shorthands, file extensions and aliases to use instead of the default one.
+   */
+  registry?: TypeRegistry;
+}
+
+/**
+ * Checks if the `Content-Type` of a response is one of the `acceptable`, the same as `is()` does.
+ * Returns `null` if the response has no `Content-Type` yet. Header values can be numbers or arrays,
+ * as in `OutgoingHttpHeaders`.
+ *
+```ts
+res.setHeader('Content-Type', 'text/html; charset=utf-8');
+
+responseTypeIs(res, ['html', 'json']); // => 'html'
+responseTypeIs(res.getHeaders(), ['text/*']); // => 'text/html'
+responseTypeIs(new Response('{}'), ['json']); // => false, since it is 'text/plain'
+```
+ */
+export function responseTypeIs(
+  res: ResponseInput,
+  acceptable: string[] = [],
+  options?: TypeIsOptions,
+): string | false | null {
+  let value: string | undefined;
+  if (typeof (res as OutgoingMessageLike).getHeader == 'function') {
+    const header = (res as OutgoingMessageLike).getHeader('content-type');
+    value = header === undefined ? undefined : Array.isArray(header) ? header.join(', ') : String(header);
+  } else {
+    value = getHeader(res as HeadersInput, 'content-type');
+  }
+
+  if (value === undefined) {
+    return null;
+  }
+
+  return is(value, acceptable, options);
+}
+
+/**
+ * Builds a `Content-Type` value for a file extension, a shorthand or a media `type`, resolving it the same
+ * as `normalize()` does. The charset is added for the types that have a default one, unless another
+ * `charset` is given. Returns `false` if the `type` has no mapping or is not a concrete media type.
+ *
+```ts
+contentTypeFor('json'); // => 'application/json; charset=utf-8'
+contentTypeFor('html', { charset: 'latin1' }); // => 'text/html; charset=latin1'
+contentTypeFor('png'); // => 'image/png'
+contentTypeFor('multipart'); // => false
+```
+ */
+export function contentTypeFor(type: string, options: ContentTypeForOptions = {}): string | false {
+  const registry = options.registry || defaultRegistry;
+  const normalized = registry.normalize(type);
+  if (!normalized) {
+    return false;
+  }
+
+  let mediaType: MediaType;
+  try {
+    mediaType = parseMediaType(normalized);
+  } catch {
+    return false;
+  }
+
+  if (mediaType.type == '*' || mediaType.subtype.indexOf('*') !== -1) {
+    return false;
+  }
+
+  if (options.charset === false) {
+    mediaType.parameters.delete('charset');
+  } else if (options.charset) {
+    mediaType.parameters.set('charset', options.charset);
+  } else if (!mediaType.parameters.has('charset')) {
+    const charset = defaultCharset(mediaType);
+    if (charset) {
+      mediaType.parameters.set('charset', charset);
+    }
+  }
+
+  return formatMediaType(mediaType);
+}
+
+function defaultCharset(mediaType: MediaType): string | false | null {
+  const charset = mimeCharsetOf(essenceOf(mediaType));
+  return charset ? charset.toLowerCase() : charsetOfMediaType(mediaType);
+}
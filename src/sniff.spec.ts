@@ -0,0 +1,126 @@
+import { IncomingHttpHeaders } from 'http';
+import { sniff, verifyType } from './sniff.js';
+
+describe('sniff(bytes)', function () {
+  it('should return null for empty bytes', function () {
+    expect(sniff(new Uint8Array())).toBe(null);
+  });
+
+  it('should sniff images', function () {
+    expect(sniff(bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]))).toBe('image/png');
+    expect(sniff(bytes([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+    expect(sniff(Buffer.from('GIF89a...'))).toBe('image/gif');
+    expect(sniff(Buffer.from('RIFF\x10\x00\x00\x00WEBPVP8 '))).toBe('image/webp');
+    expect(sniff(bytes([0x00, 0x00, 0x01, 0x00, 0x01]))).toBe('image/x-icon');
+    expect(sniff(Buffer.from('BM\x00\x00'))).toBe('image/bmp');
+  });
+
+  it('should sniff audio and video', function () {
+    expect(sniff(Buffer.from('ID3\x04'))).toBe('audio/mpeg');
+    expect(sniff(Buffer.from('OggS\x00\x02'))).toBe('application/ogg');
+    expect(sniff(Buffer.from('RIFF\x10\x00\x00\x00WAVEfmt '))).toBe('audio/wave');
+    expect(sniff(Buffer.from('RIFF\x10\x00\x00\x00AVI LIST'))).toBe('video/avi');
+    expect(sniff(bytes([0x00, 0x00, 0x00, 0x10, ...Buffer.from('ftypisom'), 0, 0, 0, 0]))).toBe(
+      'application/octet-stream',
+    );
+    expect(sniff(bytes([0x00, 0x00, 0x00, 0x14, ...Buffer.from('ftypisom'), 0, 0, 0, 0, ...Buffer.from('mp41')]))).toBe(
+      'video/mp4',
+    );
+    expect(sniff(bytes([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x82, 0x84, ...Buffer.from('webm')]))).toBe('video/webm');
+  });
+
+  it('should sniff archives and documents', function () {
+    expect(sniff(bytes([0x1f, 0x8b, 0x08, 0x00]))).toBe('application/x-gzip');
+    expect(sniff(Buffer.from('PK\x03\x04\x14\x00'))).toBe('application/zip');
+    expect(sniff(Buffer.from('Rar!\x1a\x07\x01\x00'))).toBe('application/x-rar-compressed');
+    expect(sniff(Buffer.from('%PDF-1.7\n'))).toBe('application/pdf');
+    expect(sniff(Buffer.from('%!PS-Adobe-3.0'))).toBe('application/postscript');
+  });
+
+  it('should sniff html', function () {
+    expect(sniff(Buffer.from('<!DOCTYPE html><html></html>'))).toBe('text/html');
+    expect(sniff(Buffer.from('\n  <html lang="en">'))).toBe('text/html');
+    expect(sniff(Buffer.from('<script>alert(1)</script>'))).toBe('text/html');
+    expect(sniff(Buffer.from('<b>bold</b>'))).toBe('text/html');
+    expect(sniff(Buffer.from('<!-- comment -->'))).toBe('text/html');
+    expect(sniff(Buffer.from('<bogus>'))).toBe('text/plain');
+  });
+
+  it('should sniff xml and json', function () {
+    expect(sniff(Buffer.from('<?xml version="1.0"?><a/>'))).toBe('text/xml');
+    expect(sniff(Buffer.from(' {"a": 1}'))).toBe('application/json');
+    expect(sniff(Buffer.from('[1, 2]'))).toBe('application/json');
+  });
+
+  it('should sniff text and binary', function () {
+    expect(sniff(Buffer.from('hello, world\n'))).toBe('text/plain');
+    expect(sniff(bytes([0xef, 0xbb, 0xbf, 0x68]))).toBe('text/plain');
+    expect(sniff(bytes([0x68, 0x00, 0x69]))).toBe('application/octet-stream');
+  });
+});
+
+describe('verifyType(headers, bytes, acceptable)', function () {
+  const png = bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+
+  it('should accept a body that agrees with the declared type', function () {
+    expect(verifyType(createHeaders('image/png'), png, ['image/*'])).toEqual({
+      declared: 'image/png',
+      sniffed: 'image/png',
+      matched: 'image/png',
+      agrees: true,
+      ok: true,
+    });
+  });
+
+  it('should reject a body that lies about its type', function () {
+    const html = Buffer.from('<html><script>alert(1)</script></html>');
+    expect(verifyType(createHeaders('image/png'), html, ['image/*'])).toEqual({
+      declared: 'image/png',
+      sniffed: 'text/html',
+      matched: 'image/png',
+      agrees: false,
+      ok: false,
+    });
+    expect(verifyType(createHeaders('image/png'), Buffer.from('\x00\x01\x02'), ['png']).ok).toBe(false);
+    expect(verifyType(createHeaders('text/plain'), Buffer.from('<p>hi</p>'), ['text/*']).ok).toBe(false);
+  });
+
+  it('should reject a type that is not acceptable', function () {
+    const result = verifyType(createHeaders('image/png'), png, ['json']);
+    expect(result.agrees).toBe(true);
+    expect(result.matched).toBe(false);
+    expect(result.ok).toBe(false);
+  });
+
+  it('should accept equivalent and generic types', function () {
+    expect(verifyType(createHeaders('application/json'), Buffer.from('{"a":1}'), ['json']).ok).toBe(true);
+    expect(verifyType(createHeaders('application/ld+json'), Buffer.from('{}'), ['+json']).ok).toBe(true);
+    expect(verifyType(createHeaders('text/csv'), Buffer.from('a,b\n1,2'), ['csv']).ok).toBe(true);
+    expect(verifyType(createHeaders('application/gzip'), bytes([0x1f, 0x8b, 0x08]), ['gz']).ok).toBe(true);
+    const docx = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    expect(verifyType(createHeaders(docx), Buffer.from('PK\x03\x04'), ['docx']).ok).toBe(true);
+    expect(verifyType(createHeaders('application/x-protobuf'), bytes([0x08, 0x96, 0x01]), ['*/*']).ok).toBe(true);
+  });
+
+  it('should not agree without a declared type or body', function () {
+    expect(verifyType(createHeaders(), png, ['*/*'])).toEqual({
+      declared: null,
+      sniffed: 'image/png',
+      matched: false,
+      agrees: false,
+      ok: false,
+    });
+    expect(verifyType(createHeaders('image/png'), new Uint8Array(), ['png']).agrees).toBe(false);
+  });
+});
+
+function bytes(values: number[]) {
+  return new Uint8Array(values);
+}
+
+function createHeaders(type?: string) {
+  return {
+    'content-type': type || undefined,
+    'transfer-encoding': 'chunked',
+  } as IncomingHttpHeaders;
+}
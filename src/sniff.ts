@@ -0,0 +1,379 @@
+import { HeadersInput, getHeader } from './headers.js';
+import { essenceOf, parseMediaType } from './media-type.js';
+import { TypeIsOptions, is } from './type-is.js';
+
+/**
+ * The result of `verifyType()`.
+ */
+export interface TypeVerification {
+  /**
+   * The declared media type from the `Content-Type` header, without parameters,
+   * or `null` if it is missing or invalid.
+   */
+  declared: string | null;
+  /**
+   * The media type sniffed from the body bytes, or `null` if no bytes were given.
+   */
+  sniffed: string | null;
+  /**
+   * The result of matching the declared media type against the `acceptable` types, see `is()`.
+   */
+  matched: string | false;
+  /**
+   * Whether the sniffed media type is consistent with the declared one.
+   */
+  agrees: boolean;
+  /**
+   * Whether the declared media type is acceptable and the body agrees with it.
+   */
+  ok: boolean;
+}
+
+interface BytePattern {
+  pattern: number[];
+  mask?: number[];
+  type: string;
+}
+
+/**
+ * How many bytes of the body `sniff()` looks at, as in the WHATWG MIME Sniffing standard.
+ */
+const RESOURCE_HEADER_SIZE = 1445;
+
+/**
+ * Magic numbers of images, audio, video, archives and documents, see
+ * [MIME Sniffing](https://mimesniff.spec.whatwg.org/#matching-a-mime-type-pattern).
+ */
+const bytePatterns: BytePattern[] = [
+  // images
+  { pattern: [0x00, 0x00, 0x01, 0x00], type: 'image/x-icon' },
+  { pattern: [0x00, 0x00, 0x02, 0x00], type: 'image/x-icon' },
+  { pattern: ascii('BM'), type: 'image/bmp' },
+  { pattern: ascii('GIF87a'), type: 'image/gif' },
+  { pattern: ascii('GIF89a'), type: 'image/gif' },
+  {
+    pattern: ascii('RIFF\0\0\0\0WEBPVP'),
+    mask: [0xff, 0xff, 0xff, 0xff, 0, 0, 0, 0, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff],
+    type: 'image/webp',
+  },
+  { pattern: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], type: 'image/png' },
+  { pattern: [0xff, 0xd8, 0xff], type: 'image/jpeg' },
+  // audio and video
+  {
+    pattern: ascii('FORM\0\0\0\0AIFF'),
+    mask: [0xff, 0xff, 0xff, 0xff, 0, 0, 0, 0, 0xff, 0xff, 0xff, 0xff],
+    type: 'audio/aiff',
+  },
+  { pattern: ascii('ID3'), type: 'audio/mpeg' },
+  { pattern: ascii('OggS\0'), type: 'application/ogg' },
+  { pattern: ascii('MThd\0\0\0\x06'), type: 'audio/midi' },
+  {
+    pattern: ascii('RIFF\0\0\0\0AVI '),
+    mask: [0xff, 0xff, 0xff, 0xff, 0, 0, 0, 0, 0xff, 0xff, 0xff, 0xff],
+    type: 'video/avi',
+  },
+  {
+    pattern: ascii('RIFF\0\0\0\0WAVE'),
+    mask: [0xff, 0xff, 0xff, 0xff, 0, 0, 0, 0, 0xff, 0xff, 0xff, 0xff],
+    type: 'audio/wave',
+  },
+  // archives
+  { pattern: [0x1f, 0x8b, 0x08], type: 'application/x-gzip' },
+  { pattern: ascii('PK\x03\x04'), type: 'application/zip' },
+  { pattern: ascii('Rar!\x1a\x07'), type: 'application/x-rar-compressed' },
+  // documents
+  { pattern: ascii('%PDF-'), type: 'application/pdf' },
+  { pattern: ascii('%!PS-Adobe-'), type: 'application/postscript' },
+  // byte order marks
+  { pattern: [0xfe, 0xff], type: 'text/plain' },
+  { pattern: [0xff, 0xfe], type: 'text/plain' },
+  { pattern: [0xef, 0xbb, 0xbf], type: 'text/plain' },
+];
+
+/**
+ * Tags that make a text to be sniffed as HTML, when followed by a space or `>`.
+ */
+const htmlTags = [
+  '<!DOCTYPE HTML',
+  '<HTML',
+  '<HEAD',
+  '<SCRIPT',
+  '<IFRAME',
+  '<H1',
+  '<DIV',
+  '<FONT',
+  '<TABLE',
+  '<A',
+  '<STYLE',
+  '<TITLE',
+  '<B',
+  '<BODY',
+  '<BR',
+  '<P',
+  '<!--',
+].map(ascii);
+
+/**
+ * Sniffed media types and the declared media types that are the same format.
+ */
+const equivalents: Record<string, string[]> = {
+  'image/x-icon': ['image/vnd.microsoft.icon'],
+  'audio/aiff': ['audio/x-aiff'],
+  'audio/mpeg': ['audio/mp3'],
+  'application/ogg': ['audio/ogg', 'video/ogg'],
+  'audio/midi': ['audio/x-midi', 'audio/mid'],
+  'video/avi': ['video/x-msvideo', 'video/msvideo'],
+  'audio/wave': ['audio/wav', 'audio/x-wav', 'audio/vnd.wave'],
+  'video/mp4': ['audio/mp4', 'video/quicktime'],
+  'video/webm': ['audio/webm'],
+  'application/x-gzip': ['application/gzip'],
+  'application/x-rar-compressed': ['application/vnd.rar'],
+  'application/zip': [
+    'application/x-zip-compressed',
+    'application/java-archive',
+    'application/epub+zip',
+    'application/vnd.android.package-archive',
+    'application/vnd.oasis.opendocument.text',
+    'application/vnd.oasis.opendocument.spreadsheet',
+    'application/vnd.oasis.opendocument.presentation',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  ],
+  'text/xml': ['application/xml'],
+};
+
+/**
+ * Sniffs the media type of a body from its first bytes, following the
+ * [WHATWG MIME Sniffing](https://mimesniff.spec.whatwg.org/) standard. Only the first
+ * 1445 bytes are looked at, so there is no need to pass more.
+ *
+ * Besides the magic numbers of images, audio, video, archives and documents, it recognizes
+ * HTML, XML and JSON texts. Any other text is reported as `text/plain`, and any other binary
+ * data as `application/octet-stream`. If `bytes` is empty, `null` is returned.
+ *
+```ts
+sniff(Buffer.from('%PDF-1.7')); // => 'application/pdf'
+sniff(Buffer.from(' {"a": 1}')); // => 'application/json'
+sniff(Buffer.from([0x00, 0x01])); // => 'application/octet-stream'
+```
+ */
+export function sniff(bytes: Uint8Array): string | null {
+  if (!bytes.length) {
+    return null;
+  }
+
+  bytes = bytes.subarray(0, RESOURCE_HEADER_SIZE);
+
+  for (const { pattern, mask, type } of bytePatterns) {
+    if (matchBytes(bytes, pattern, mask)) {
+      return type;
+    }
+  }
+
+  if (isMp4(bytes)) {
+    return 'video/mp4';
+  }
+  if (isWebm(bytes)) {
+    return 'video/webm';
+  }
+
+  if (bytes.some(isBinaryByte)) {
+    return 'application/octet-stream';
+  }
+
+  return sniffText(bytes);
+}
+
+/**
+ * Checks that the first bytes of a body agree with the `Content-Type` of the `headers`, and that
+ * the declared type is one of the `acceptable` types (see `is()`). This way an upload that claims
+ * to be `image/png` but is actually an HTML page can be rejected.
+ *
+ * The sniffed type agrees with the declared one if they are the same format, or if the body is
+ * a generic text (`text/plain`) and the declared type is textual, or if the body is a generic
+ * binary (`application/octet-stream`) and the declared type is not one that `sniff()` recognizes.
+ *
+```ts
+// const headers = { 'content-type': 'image/png', 'content-length': '1024' };
+
+verifyType(headers, pngBytes, ['image/*']); // => { declared: 'image/png', sniffed: 'image/png', matched: 'image/png', agrees: true, ok: true }
+verifyType(headers, htmlBytes, ['image/*']); // => { declared: 'image/png', sniffed: 'text/html', matched: 'image/png', agrees: false, ok: false }
+```
+ */
+export function verifyType(
+  headers: HeadersInput,
+  bytes: Uint8Array,
+  acceptable: string[] = [],
+  options?: TypeIsOptions,
+): TypeVerification {
+  const value = getHeader(headers, 'content-type');
+  const declared = tryEssenceOf(value);
+  const sniffed = sniff(bytes);
+  const matched = is(value, acceptable, options);
+  const agrees = declared !== null && sniffed !== null && agree(declared, sniffed);
+
+  return { declared, sniffed, matched, agrees, ok: matched !== false && agrees };
+}
+
+function agree(declared: string, sniffed: string): boolean {
+  if (declared === sniffed || equivalents[sniffed]?.includes(declared)) {
+    return true;
+  }
+
+  const subtype = declared.slice(declared.indexOf('/') + 1);
+  const suffix = subtype.slice(subtype.lastIndexOf('+') + 1);
+
+  switch (sniffed) {
+    case 'application/zip':
+      return suffix == 'zip';
+    case 'text/xml':
+      return suffix == 'xml';
+    case 'application/json':
+      return suffix == 'json' || isTextual(declared);
+    case 'text/plain':
+      return isTextual(declared);
+    case 'application/octet-stream':
+      return !isTextual(declared) && !isSniffable(declared);
+  }
+
+  return false;
+}
+
+function isTextual(type: string): boolean {
+  return (
+    type.startsWith('text/') ||
+    type.endsWith('+json') ||
+    type.endsWith('+xml') ||
+    [
+      'application/json',
+      'application/xml',
+      'application/javascript',
+      'application/ecmascript',
+      'application/x-www-form-urlencoded',
+      'application/x-ndjson',
+      'application/yaml',
+      'image/svg+xml',
+    ].includes(type)
+  );
+}
+
+function isSniffable(type: string): boolean {
+  for (const [sniffed, types] of Object.entries(equivalents)) {
+    if (sniffed === type || types.includes(type)) {
+      return true;
+    }
+  }
+  return bytePatterns.some((pattern) => pattern.type === type);
+}
+
+function sniffText(bytes: Uint8Array): string {
+  let start = 0;
+  while (start < bytes.length && isWhitespaceByte(bytes[start])) {
+    start++;
+  }
+  const text = bytes.subarray(start);
+
+  for (const tag of htmlTags) {
+    if (matchBytes(text, tag, undefined, true) && isTagTerminatingByte(text[tag.length])) {
+      return 'text/html';
+    }
+  }
+
+  if (matchBytes(text, ascii('<?xml'))) {
+    return 'text/xml';
+  }
+
+  if (text[0] === 0x7b || text[0] === 0x5b) {
+    // "{" or "["
+    return 'application/json';
+  }
+
+  return 'text/plain';
+}
+
+function isMp4(bytes: Uint8Array): boolean {
+  if (bytes.length < 12) {
+    return false;
+  }
+
+  const boxSize = ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0;
+  if (bytes.length < boxSize || boxSize % 4 !== 0 || !matchBytes(bytes.subarray(4), ascii('ftyp'))) {
+    return false;
+  }
+
+  const brand = ascii('mp4');
+  if (matchBytes(bytes.subarray(8), brand)) {
+    return true;
+  }
+  for (let offset = 16; offset < boxSize; offset += 4) {
+    if (matchBytes(bytes.subarray(offset), brand)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function isWebm(bytes: Uint8Array): boolean {
+  if (!matchBytes(bytes, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return false;
+  }
+
+  // look for the "webm" DocType in the EBML header
+  const docType = ascii('webm');
+  for (let offset = 4; offset < Math.min(bytes.length, 64); offset++) {
+    if (matchBytes(bytes.subarray(offset), docType)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function matchBytes(bytes: Uint8Array, pattern: number[], mask?: number[], ignoreCase?: boolean): boolean {
+  if (bytes.length < pattern.length) {
+    return false;
+  }
+
+  for (let i = 0; i < pattern.length; i++) {
+    let byte = bytes[i];
+    if (ignoreCase && byte >= 0x61 && byte <= 0x7a) {
+      // to upper case
+      byte -= 0x20;
+    }
+    if ((byte & (mask ? mask[i] : 0xff)) !== pattern[i]) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function isBinaryByte(byte: number): boolean {
+  return byte <= 0x08 || byte === 0x0b || (byte >= 0x0e && byte <= 0x1a) || (byte >= 0x1c && byte <= 0x1f);
+}
+
+function isWhitespaceByte(byte: number): boolean {
+  return byte === 0x09 || byte === 0x0a || byte === 0x0c || byte === 0x0d || byte === 0x20;
+}
+
+function isTagTerminatingByte(byte: number | undefined): boolean {
+  return byte === 0x20 || byte === 0x3e;
+}
+
+function tryEssenceOf(value?: string): string | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return essenceOf(parseMediaType(value));
+  } catch {
+    return null;
+  }
+}
+
+function ascii(value: string): number[] {
+  return Array.from(value, (char) => char.charCodeAt(0));
+}
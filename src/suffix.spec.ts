@@ -0,0 +1,103 @@
+import { IncomingHttpHeaders } from 'http';
+import { createTypeMatcher } from './matcher.js';
+import { parseMediaType } from './media-type.js';
+import { TypeRegistry } from './registry.js';
+import { baseFormatOf } from './suffix.js';
+import { typeIsDetailed } from './type-is-detailed.js';
+import { is, typeIs } from './type-is.js';
+
+describe('baseFormatOf(type)', function () {
+  it('should return the suffix of a type', function () {
+    expect(baseFormatOf('application/problem+json')).toBe('json');
+    expect(baseFormatOf('image/svg+xml')).toBe('xml');
+    expect(baseFormatOf('application/vnd.oci.image.layer.v1.tar+zstd')).toBe('zstd');
+    expect(baseFormatOf('application/ld+json; charset=utf-8')).toBe('json');
+  });
+
+  it('should return the format of a base type', function () {
+    expect(baseFormatOf('application/json')).toBe('json');
+    expect(baseFormatOf('text/xml')).toBe('xml');
+    expect(baseFormatOf('text/yaml')).toBe('yaml');
+    expect(baseFormatOf(parseMediaType('application/CBOR'))).toBe('cbor');
+  });
+
+  it('should rebuild MediaType objects made by hand', function () {
+    expect(baseFormatOf({ type: 'application', subtype: 'problem+json' } as any)).toBe('json');
+    expect(baseFormatOf({ type: 'Application', subtype: 'JSON' } as any)).toBe('json');
+    expect(baseFormatOf({ type: 'te xt', subtype: 'json' } as any)).toBeNull();
+  });
+
+  it('should return null for other types', function () {
+    expect(baseFormatOf('text/html')).toBeNull();
+    expect(baseFormatOf('application/x-foo+bar')).toBeNull();
+    expect(baseFormatOf('application/x-foo+constructor')).toBeNull();
+    expect(baseFormatOf('invalid')).toBeNull();
+  });
+});
+
+describe('structuredSuffixes option', function () {
+  it('should be off by default', function () {
+    expect(is('application/problem+json', ['json'])).toBe(false);
+  });
+
+  it('should match types with the suffix of the base format', function () {
+    const options = { structuredSuffixes: true };
+    expect(is('application/problem+json', ['json'], options)).toBe('json');
+    expect(is('application/json', ['json'], options)).toBe('json');
+    expect(is('image/svg+xml', ['html', 'xml'], options)).toBe('xml');
+    expect(is('text/xml', ['xml'], options)).toBe('xml');
+    expect(is('application/yaml', ['yaml'], options)).toBe('yaml');
+    expect(is('application/problem+xml', ['json'], options)).toBe(false);
+    expect(is('application/json-seq', ['json'], options)).toBe(false);
+  });
+
+  it('should not change media types and suffixes', function () {
+    const options = { structuredSuffixes: true };
+    expect(is('application/problem+json', ['application/json'], options)).toBe(false);
+    expect(is('application/problem+json', ['+json'], options)).toBe('application/problem+json');
+  });
+
+  it('should match parameters', function () {
+    const options = { structuredSuffixes: true };
+    expect(is('application/problem+json; charset=utf-8', ['json; charset=utf-8'], options)).toBe(
+      'application/problem+json; charset=utf-8',
+    );
+    expect(is('application/problem+json; charset=latin1', ['json; charset=utf-8'], options)).toBe(false);
+  });
+
+  it('should use the registry', function () {
+    const registry = new TypeRegistry({ shorthands: { data: 'application/json' } });
+    expect(is('application/ld+json', ['data'], { registry, structuredSuffixes: true })).toBe('data');
+  });
+
+  it('should work with typeIs()', function () {
+    const headers = createHeaders('application/problem+json');
+    expect(typeIs(headers, ['json'], { structuredSuffixes: true })).toBe('json');
+  });
+
+  it('should work with typeIsDetailed()', function () {
+    const headers = createHeaders('application/problem+json');
+    expect(typeIsDetailed(headers, ['html', 'json'], { structuredSuffixes: true })).toMatchObject({
+      matched: true,
+      value: 'json',
+      index: 1,
+      candidates: [{ pattern: 'html', index: 0, reason: 'type-mismatch' }],
+    });
+    expect(typeIsDetailed(headers, ['json'])).toMatchObject({ matched: false, reason: 'mismatch' });
+  });
+
+  it('should work with createTypeMatcher()', function () {
+    const matcher = createTypeMatcher(['json; charset=utf-8', 'xml'], { structuredSuffixes: true });
+    expect(matcher('application/problem+json; charset=UTF-8')).toBe('application/problem+json; charset=UTF-8');
+    expect(matcher('application/problem+json')).toBe(false);
+    expect(matcher('image/svg+xml')).toBe('xml');
+    expect(createTypeMatcher(['xml'])('image/svg+xml')).toBe(false);
+  });
+});
+
+function createHeaders(type?: string) {
+  return {
+    'content-type': type || undefined,
+    'transfer-encoding': 'chunked',
+  } as IncomingHttpHeaders;
+}
@@ -0,0 +1,97 @@
+import { MediaType, essenceOf, isMediaType, parseMediaType, toMediaType } from './media-type.js';
+import { TypeRegistry } from './registry.js';
+import { mimeMatch } from './type-is.js';
+
+/**
+ * Structured syntax suffixes of the
+ * [IANA registry](https://www.iana.org/assignments/media-type-structured-suffix/media-type-structured-suffix.xhtml)
+ * and the media types of their base formats.
+ */
+const baseTypes: Record<string, string[]> = {
+  json: ['application/json'],
+  xml: ['application/xml', 'text/xml'],
+  ber: [],
+  der: [],
+  fastinfoset: ['application/fastinfoset'],
+  wbxml: ['application/vnd.wap.wbxml'],
+  zip: ['application/zip'],
+  gzip: ['application/gzip'],
+  cbor: ['application/cbor'],
+  'json-seq': ['application/json-seq'],
+  'cbor-seq': ['application/cbor-seq'],
+  sqlite3: ['application/vnd.sqlite3'],
+  jwt: ['application/jwt'],
+  yaml: ['application/yaml', 'text/yaml', 'application/x-yaml'],
+  zstd: ['application/zstd'],
+};
+
+const formats = new Map<string, string>();
+for (const [suffix, types] of Object.entries(baseTypes)) {
+  for (const type of types) {
+    formats.set(type, suffix);
+  }
+}
+
+/**
+ * Returns the base format of the media `type` as a registered structured syntax suffix without the `+`,
+ * or `null` if there is none. The base format of a type with a suffix is its suffix, and the base format
+ * of a type such as `application/json` is the format itself.
+ *
+```ts
+baseFormatOf('application/problem+json'); // => 'json'
+baseFormatOf('application/json'); // => 'json'
+baseFormatOf('image/svg+xml'); // => 'xml'
+baseFormatOf('text/html'); // => null
+```
+ */
+export function baseFormatOf(type: string | MediaType): string | null {
+  let mediaType: MediaType;
+  try {
+    mediaType = isMediaType(type) ? toMediaType(type) : parseMediaType(type);
+  } catch {
+    return null;
+  }
+
+  if (mediaType.suffix !== undefined) {
+    return Object.hasOwn(baseTypes, mediaType.suffix) ? mediaType.suffix : null;
+  }
+
+  return formats.get(essenceOf(mediaType)) || null;
+}
+
+/**
+ * Returns the media types of the base format of the structured syntax `suffix`, e.g. `application/json`
+ * for `json`, or an empty array if the suffix is not registered.
+ */
+export function baseTypesOf(suffix: string): string[] {
+  return Object.hasOwn(baseTypes, suffix) ? baseTypes[suffix] : [];
+}
+
+/**
+ * Returns the base format of a file extension or shorthand `pattern` such as `json`, or `null`
+ * if the `pattern` is a media type, a suffix or has no base format.
+ */
+export function baseFormatOfPattern(pattern: string, registry: TypeRegistry): string | null {
+  const index = pattern.indexOf(';');
+  const name = (index === -1 ? pattern : pattern.slice(0, index)).trim();
+  if (!name || name[0] === '+' || name.indexOf('/') !== -1) {
+    return null;
+  }
+
+  const normalized = registry.normalize(name);
+  return normalized ? baseFormatOf(normalized) : null;
+}
+
+/**
+ * Checks if the file extension or shorthand `pattern` matches the `mediaType` by its base format,
+ * e.g. `json` matches `application/problem+json`. Parameters of the `pattern` are matched as `mimeMatch()` does.
+ */
+export function matchBaseFormat(pattern: string, mediaType: MediaType, registry: TypeRegistry): boolean {
+  const format = baseFormatOfPattern(pattern, registry);
+  if (!format || baseFormatOf(mediaType) !== format) {
+    return false;
+  }
+
+  const index = pattern.indexOf(';');
+  return index === -1 || mimeMatch('*/*' + pattern.slice(index), mediaType);
+}
@@ -0,0 +1,147 @@
+import { IncomingHttpHeaders } from 'http';
+import { typeIsDetailed } from './type-is-detailed.js';
+
+describe('typeIsDetailed(headers, types)', function () {
+  it('should report no body', function () {
+    expect(typeIsDetailed({ 'content-type': 'text/html' }, ['html'])).toEqual({ matched: false, reason: 'no-body' });
+  });
+
+  it('should report no content type', function () {
+    expect(typeIsDetailed(createHeaders(), ['html'])).toEqual({ matched: false, reason: 'no-content-type' });
+  });
+
+  it('should report invalid content type', function () {
+    const result = typeIsDetailed(createHeaders('bogus'), ['html']);
+    expect(result.reason).toBe('invalid-content-type');
+    if (result.reason == 'invalid-content-type') {
+      expect(result.contentType).toBe('bogus');
+      expect(result.error).toBeInstanceOf(TypeError);
+    }
+  });
+
+  it('should report the match', function () {
+    const result = typeIsDetailed(createHeaders('text/html; charset=utf-8'), ['json', 'text/*']);
+    expect(result.matched).toBe(true);
+    if (result.matched) {
+      expect(result.value).toBe('text/html');
+      expect(result.pattern).toBe('text/*');
+      expect(result.index).toBe(1);
+      expect(result.mediaType.parameters.get('charset')).toBe('utf-8');
+      expect(result.candidates).toEqual([{ pattern: 'json', index: 0, reason: 'type-mismatch' }]);
+    }
+  });
+
+  it('should return the same value as typeIs()', function () {
+    const headers = createHeaders('text/plain; charset=utf-8');
+    expect(typeIsDetailed(headers, ['txt'])).toMatchObject({ value: 'txt' });
+    expect(typeIsDetailed(headers, ['+json', 'text/plain; charset=*'])).toMatchObject({
+      value: 'text/plain; charset=utf-8',
+    });
+    expect(typeIsDetailed(headers)).toMatchObject({ matched: true, value: 'text/plain', pattern: null, index: -1 });
+  });
+
+  it('should report why each candidate failed', function () {
+    const result = typeIsDetailed(createHeaders('text/plain; charset=latin1'), [
+      'bogus',
+      'text/html/',
+      'json',
+      'text/plain; charset=utf-8',
+    ]);
+    expect(result.reason).toBe('mismatch');
+    if (result.reason == 'mismatch') {
+      expect(result.mediaType.subtype).toBe('plain');
+      expect(result.candidates).toEqual([
+        { pattern: 'bogus', index: 0, reason: 'unknown-pattern' },
+        { pattern: 'text/html/', index: 1, reason: 'invalid-pattern' },
+        { pattern: 'json', index: 2, reason: 'type-mismatch' },
+        { pattern: 'text/plain; charset=utf-8', index: 3, reason: 'parameter-mismatch' },
+      ]);
+    }
+  });
+
+  it('should report every other candidate with allCandidates', function () {
+    const headers = createHeaders('text/plain; charset=latin1');
+    const acceptable = ['text/*', 'json', 'text/plain', 'text/plain; charset=utf-8'];
+    expect(typeIsDetailed(headers, acceptable)).toMatchObject({ pattern: 'text/*', index: 0, candidates: [] });
+    expect(typeIsDetailed(headers, acceptable, { allCandidates: true })).toMatchObject({
+      value: 'text/plain',
+      pattern: 'text/*',
+      index: 0,
+      candidates: [
+        { pattern: 'json', index: 1, reason: 'type-mismatch' },
+        { pattern: 'text/plain; charset=utf-8', index: 3, reason: 'parameter-mismatch' },
+      ],
+    });
+  });
+
+  it('should report invalid patterns when none is valid', function () {
+    expect(typeIsDetailed(createHeaders('text/plain'), ['bogus', 'text/html/'])).toMatchObject({
+      matched: false,
+      reason: 'invalid-pattern',
+    });
+  });
+
+  it('should report repairs of the lenient parser', function () {
+    const headers = createHeaders('text/html;');
+    expect(typeIsDetailed(headers, ['html'], { parser: 'lenient' })).toMatchObject({
+      matched: true,
+      value: 'html',
+      repairs: ['empty-parameter'],
+    });
+    expect(typeIsDetailed(headers, ['json'], { parser: 'lenient' })).toMatchObject({
+      matched: false,
+      reason: 'mismatch',
+      repairs: ['empty-parameter'],
+    });
+    expect(typeIsDetailed(headers, ['html'])).toMatchObject({ reason: 'invalid-content-type' });
+    expect(typeIsDetailed(createHeaders('text/html'), ['html'], { parser: 'lenient' })).not.toHaveProperty('repairs');
+  });
+
+  it('should report duplicate content types', function () {
+    const headers = createHeaders('text/html, application/json');
+    expect(typeIsDetailed(headers, ['json'], { duplicates: 'reject' })).toEqual({
+      matched: false,
+      reason: 'duplicate-content-type',
+      values: ['text/html', 'application/json'],
+    });
+    expect(typeIsDetailed(headers, ['json'], { duplicates: 'last' })).toMatchObject({ matched: true, value: 'json' });
+  });
+
+  it('should report exclusions', function () {
+    expect(typeIsDetailed(createHeaders('text/html'), ['text/*', '!html'])).toMatchObject({
+      matched: false,
+      reason: 'mismatch',
+      candidates: [{ pattern: '!html', index: 1, reason: 'excluded' }],
+    });
+    expect(typeIsDetailed(createHeaders('text/css'), ['!html'])).toMatchObject({
+      matched: true,
+      value: 'text/css',
+      pattern: null,
+      index: -1,
+    });
+  });
+
+  it('should report unsupported encodings', function () {
+    const headers = { ...createHeaders('application/json'), 'content-encoding': 'br, gzip' };
+    expect(typeIsDetailed(headers, ['json'], { encodings: ['gzip', 'identity'] })).toEqual({
+      matched: false,
+      reason: 'unsupported-encoding',
+      encodings: ['br', 'gzip'],
+      unsupported: ['br'],
+      acceptEncoding: 'gzip, identity',
+    });
+    expect(typeIsDetailed(createHeaders('application/json'), ['json'], { encodings: ['gzip'] })).toMatchObject({
+      reason: 'unsupported-encoding',
+      encodings: [],
+      unsupported: ['identity'],
+    });
+    expect(typeIsDetailed(headers, ['json'], { encodings: ['br', 'gzip'] })).toMatchObject({ matched: true });
+  });
+});
+
+function createHeaders(type?: string) {
+  return {
+    'content-type': type || undefined,
+    'transfer-encoding': 'chunked',
+  } as IncomingHttpHeaders;
+}
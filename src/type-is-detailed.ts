@@ -0,0 +1,392 @@
+import { charsetOfMediaType } from './charset.js';
+import { isObserved, observeTypeIsDetailed } from './diagnostics.js';
+import { acceptEncodingFor, contentEncodingsOf, unsupportedEncodings } from './encoding.js';
+import { HeadersInput } from './headers.js';
+import { LenientMediaType, MediaType, MediaTypeRepair, essenceOf, parseMediaType } from './media-type.js';
+import { expandPattern, isNegated } from './pattern.js';
+import { TypeRegistry, defaultRegistry } from './registry.js';
+import {
+  TypeIsOptions,
+  checkOptions,
+  getContentType,
+  getContentTypes,
+  hasBody,
+  matchedValue,
+  matchesPattern,
+  mimeMatch,
+  parseContentType,
+} from './type-is.js';
+
+/**
+ * Why `typeIsDetailed()` did not match:
+ *
+ * - `no-body` - the request has no body, `typeIs()` returns `null` in this case;
+ * - `no-content-type` - the request has a body but no `Content-Type` header;
+ * - `invalid-content-type` - the `Content-Type` header cannot be parsed;
+ * - `invalid-pattern` - none of the acceptable types is valid, which is a bug of the caller;
+ * - `mismatch` - the `Content-Type` is valid, but none of the acceptable types matches it;
+ * - `unsupported-charset` - the charset is not one of the `charsets` option;
+ * - `invalid-boundary` - the multipart boundary is missing or invalid, with the `requireBoundary` option;
+ * - `duplicate-content-type` - the request has several `Content-Type` values rejected by the `duplicates` option;
+ * - `unsupported-encoding` - a content coding of the body is not one of the `encodings` option.
+ */
+export type TypeIsFailureReason =
+  | 'no-body'
+  | 'no-content-type'
+  | 'invalid-content-type'
+  | 'invalid-pattern'
+  | 'mismatch'
+  | 'unsupported-charset'
+  | 'invalid-boundary'
+  | 'duplicate-content-type'
+  | 'unsupported-encoding';
+
+/**
+ * Why an acceptable type did not match:
+ *
+ * - `unknown-pattern` - the type is a file extension or a shorthand with no mapping;
+ * - `invalid-pattern` - the type is malformed;
+ * - `type-mismatch` - the type and subtype do not match;
+ * - `parameter-mismatch` - the type and subtype match, but the required parameters do not;
+ * - `excluded` - the type is an exclusion such as `!text/html` that matches.
+ */
+export type CandidateFailureReason =
+  | 'unknown-pattern'
+  | 'invalid-pattern'
+  | 'type-mismatch'
+  | 'parameter-mismatch'
+  | 'excluded';
+
+export interface CandidateFailure {
+  pattern: string;
+  index: number;
+  reason: CandidateFailureReason;
+}
+
+export interface TypeIsDetailedOptions extends TypeIsOptions {
+  /**
+   * Also check the acceptable types after the one that matched, so that `candidates` lists why each
+   * of the others failed. Defaults to `false`, stopping at the first match like `typeIs()` does.
+   */
+  allCandidates?: boolean;
+}
+
+export interface TypeIsMatch {
+  matched: true;
+  reason: 'match';
+  /**
+   * The same value that `typeIs()` returns.
+   */
+  value: string;
+  mediaType: MediaType;
+  /**
+   * The acceptable type that matched, or `null` if no acceptable types were given.
+   */
+  pattern: string | null;
+  index: number;
+  /**
+   * The acceptable types before the one that matched, or all the others that do not match with
+   * `allCandidates`, and why they did not match.
+   */
+  candidates: CandidateFailure[];
+  /**
+   * The repairs made by the `lenient` parser, if any.
+   */
+  repairs?: MediaTypeRepair[];
+}
+
+export interface TypeIsNoBody {
+  matched: false;
+  reason: 'no-body';
+}
+
+export interface TypeIsNoContentType {
+  matched: false;
+  reason: 'no-content-type';
+}
+
+export interface TypeIsInvalidContentType {
+  matched: false;
+  reason: 'invalid-content-type';
+  contentType: string;
+  error: Error;
+}
+
+export interface TypeIsMismatch {
+  matched: false;
+  reason: 'mismatch' | 'invalid-pattern';
+  mediaType: MediaType;
+  candidates: CandidateFailure[];
+  /**
+   * The repairs made by the `lenient` parser, if any.
+   */
+  repairs?: MediaTypeRepair[];
+}
+
+export interface TypeIsUnsupportedCharset {
+  matched: false;
+  reason: 'unsupported-charset';
+  mediaType: MediaType;
+  /**
+   * The charset as returned by `charsetOf()`.
+   */
+  charset: string | false;
+  /**
+   * The repairs made by the `lenient` parser, if any.
+   */
+  repairs?: MediaTypeRepair[];
+}
+
+export interface TypeIsInvalidBoundary {
+  matched: false;
+  reason: 'invalid-boundary';
+  mediaType: MediaType;
+  boundary: string | undefined;
+  /**
+   * The repairs made by the `lenient` parser, if any.
+   */
+  repairs?: MediaTypeRepair[];
+}
+
+export interface TypeIsDuplicateContentType {
+  matched: false;
+  reason: 'duplicate-content-type';
+  /**
+   * All values of the `Content-Type`.
+   */
+  values: string[];
+}
+
+export interface TypeIsUnsupportedEncoding {
+  matched: false;
+  reason: 'unsupported-encoding';
+  /**
+   * All content codings of the body in the order they were applied, see `contentEncodingsOf()`.
+   */
+  encodings: string[];
+  /**
+   * The content codings that are not acceptable, `['identity']` for a body that is not encoded.
+   */
+  unsupported: string[];
+  /**
+   * The value of the `Accept-Encoding` header for a 415 response, which lists the acceptable codings.
+   */
+  acceptEncoding: string;
+}
+
+export type TypeIsFailure =
+  | TypeIsNoBody
+  | TypeIsNoContentType
+  | TypeIsInvalidContentType
+  | TypeIsMismatch
+  | TypeIsUnsupportedCharset
+  | TypeIsInvalidBoundary
+  | TypeIsDuplicateContentType
+  | TypeIsUnsupportedEncoding;
+
+/**
+ * The result of `typeIsDetailed()`, use `reason` to tell the cases apart.
+ */
+export type TypeIsResult = TypeIsMatch | TypeIsFailure;
+
+/**
+ * Works the same as `typeIs()`, but instead of `null` or `false` returns the reason why the `headers`
+ * do not match, along with the parsed media type and why each of the `acceptable` types failed.
+ * This allows to tell a bad request (400) from an unsupported media type (415), and to log the details.
+ *
+```ts
+const result = typeIsDetailed(req.headers, ['json', 'urlencoded']);
+
+switch (result.reason) {
+  case 'match':
+    console.log(result.value, result.mediaType.parameters.get('charset'));
+    break;
+  case 'no-content-type':
+  case 'invalid-content-type':
+    res.statusCode = 400;
+    break;
+  case 'mismatch':
+    res.statusCode = 415;
+    break;
+}
+```
+ */
+export function typeIsDetailed(
+  headers: HeadersInput,
+  acceptable: string[] = [],
+  options?: TypeIsDetailedOptions,
+): TypeIsResult {
+  const result = detailed(headers, acceptable, options);
+  if (isObserved(options)) {
+    observeTypeIsDetailed(headers, acceptable, result, options || {});
+  }
+  return result;
+}
+
+function detailed(headers: HeadersInput, acceptable: string[], options?: TypeIsDetailedOptions): TypeIsResult {
+  // no body
+  if (!hasBody(headers)) {
+    return { matched: false, reason: 'no-body' };
+  }
+
+  if (options?.encodings) {
+    const unsupported = unsupportedEncodings(headers, options.encodings);
+    if (unsupported.length) {
+      return {
+        matched: false,
+        reason: 'unsupported-encoding',
+        encodings: contentEncodingsOf(headers),
+        unsupported,
+        acceptEncoding: acceptEncodingFor(options.encodings),
+      };
+    }
+  }
+
+  const contentType = getContentType(headers, options);
+  if (contentType === false) {
+    return { matched: false, reason: 'duplicate-content-type', values: getContentTypes(headers) };
+  }
+  if (!contentType) {
+    return { matched: false, reason: 'no-content-type' };
+  }
+
+  let parsed: LenientMediaType;
+  try {
+    parsed = parseContentType(contentType, options);
+  } catch (err) {
+    return { matched: false, reason: 'invalid-content-type', contentType, error: err as Error };
+  }
+
+  const result = matchDetailed(parsed.mediaType, acceptable, options);
+  if (parsed.repairs.length) {
+    options?.onRepair?.(contentType, parsed.repairs);
+    result.repairs = parsed.repairs;
+  }
+  return result;
+}
+
+/**
+ * Matches an already parsed `mediaType` against the `acceptable` types, collecting the reasons of failures.
+ */
+export function matchDetailed(
+  mediaType: MediaType,
+  acceptable: string[],
+  options?: TypeIsDetailedOptions,
+): TypeIsMatch | TypeIsMismatch | TypeIsUnsupportedCharset | TypeIsInvalidBoundary {
+  const registry = options?.registry || defaultRegistry;
+
+  // resolve aliases
+  mediaType = registry.resolve(mediaType);
+
+  // rejected by options
+  switch (options && checkOptions(mediaType, options)) {
+    case 'unsupported-charset':
+      return {
+        matched: false,
+        reason: 'unsupported-charset',
+        mediaType,
+        charset: charsetOfMediaType(mediaType) as string | false,
+      };
+    case 'invalid-boundary':
+      return { matched: false, reason: 'invalid-boundary', mediaType, boundary: mediaType.parameters.get('boundary') };
+  }
+  const actual = essenceOf(mediaType);
+  const candidates: CandidateFailure[] = [];
+
+  // no types, return the content type
+  if (!acceptable.length) {
+    return { matched: true, reason: 'match', value: actual, mediaType, pattern: null, index: -1, candidates };
+  }
+
+  // exclusions apply to any match
+  const exclusion = acceptable.findIndex(
+    (pattern) => isNegated(pattern) && matchesPattern(pattern, mediaType, options),
+  );
+  if (exclusion !== -1) {
+    candidates.push({ pattern: acceptable[exclusion], index: exclusion, reason: 'excluded' });
+    return { matched: false, reason: 'mismatch', mediaType, candidates };
+  }
+
+  let match: TypeIsMatch | undefined;
+  for (let index = 0; index < acceptable.length; index++) {
+    const pattern = acceptable[index];
+    if (isNegated(pattern)) {
+      continue;
+    }
+
+    if (!matchesPattern(pattern, mediaType, options)) {
+      candidates.push({ pattern, index, reason: failureOf(pattern, mediaType, registry) });
+      continue;
+    }
+    // a later type that matches as well did not fail
+    if (match) {
+      continue;
+    }
+
+    const value = matchedValue(pattern, mediaType);
+    match = { matched: true, reason: 'match', value, mediaType, pattern, index, candidates };
+    if (!options?.allCandidates) {
+      break;
+    }
+  }
+  if (match) {
+    return match;
+  }
+
+  // only exclusions, so anything else matches
+  if (acceptable.every(isNegated)) {
+    return { matched: true, reason: 'match', value: actual, mediaType, pattern: null, index: -1, candidates };
+  }
+
+  const hasValidPattern = candidates.some(
+    (candidate) => candidate.reason != 'unknown-pattern' && candidate.reason != 'invalid-pattern',
+  );
+
+  return { matched: false, reason: hasValidPattern ? 'mismatch' : 'invalid-pattern', mediaType, candidates };
+}
+
+/**
+ * Returns why the acceptable `pattern` does not match the `mediaType`. For alternatives such as
+ * `application/{json,xml}`, the reason of the alternative that came closest is returned.
+ */
+function failureOf(pattern: string, mediaType: MediaType, registry: TypeRegistry): CandidateFailureReason {
+  let alternatives: string[];
+  try {
+    alternatives = expandPattern(pattern);
+  } catch {
+    return 'invalid-pattern';
+  }
+
+  const reasons = alternatives.map((alternative) => failureOfAlternative(alternative, mediaType, registry));
+  return failureReasons.find((reason) => reasons.includes(reason)) || 'type-mismatch';
+}
+
+/**
+ * Failure reasons from the closest to a match to the farthest one.
+ */
+const failureReasons: CandidateFailureReason[] = [
+  'parameter-mismatch',
+  'type-mismatch',
+  'invalid-pattern',
+  'unknown-pattern',
+];
+
+function failureOfAlternative(pattern: string, mediaType: MediaType, registry: TypeRegistry): CandidateFailureReason {
+  const normalized = registry.normalize(pattern);
+  if (!normalized) {
+    return 'unknown-pattern';
+  }
+
+  let expected: MediaType;
+  try {
+    expected = parseMediaType(normalized);
+  } catch {
+    return 'invalid-pattern';
+  }
+
+  if (!mimeMatch(essenceOf(expected), essenceOf(mediaType))) {
+    return 'type-mismatch';
+  }
+
+  return 'parameter-mismatch';
+}
@@ -1,5 +1,8 @@
 import { IncomingHttpHeaders } from 'http';
+import http2 from 'http2';
+import { AddressInfo } from 'net';
 import { typeIs, hasBody, is, mimeMatch, normalize } from './type-is.js';
+import { parseMediaType } from './media-type.js';
 
 describe('typeOfRequest(headers, types)', function () {
   it('should ignore params', function () {
@@ -50,6 +53,12 @@ describe('typeOfRequest(headers, types)', function () {
       const headers = createHeaders('image/png');
       expect(typeIs(headers)).toBe('image/png');
     });
+
+    it('should keep the options', function () {
+      const headers = { ...createHeaders('image/png'), 'content-encoding': 'gzip' };
+      expect(typeIs(headers, undefined, { encodings: ['identity'] })).toBe(false);
+      expect(typeIs(headers, undefined, { encodings: ['gzip'] })).toBe('image/png');
+    });
   });
 
   describe('given one type', function () {
@@ -147,6 +156,39 @@ describe('typeOfRequest(headers, types)', function () {
   });
 });
 
+describe('typeIs(headers, types) with Fetch API', function () {
+  it('should accept Headers', function () {
+    const headers = new Headers({ 'Content-Type': 'application/json', 'Content-Length': '2' });
+    expect(typeIs(headers, ['json'])).toBe('json');
+    expect(typeIs(new Headers({ 'Content-Type': 'application/json' }), ['json'])).toBe(null);
+  });
+
+  it('should accept Request', function () {
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'content-type': 'text/html; charset=utf-8' },
+      body: '<p></p>',
+    });
+    expect(typeIs(request, ['text/*'])).toBe('text/html');
+    expect(typeIs(new Request('http://localhost/'), ['*/*'])).toBe(null);
+  });
+
+  it('should accept Response', function () {
+    const response = new Response('{}', { headers: { 'content-type': 'application/json' } });
+    expect(typeIs(response, ['json'])).toBe('json');
+    expect(typeIs(new Response(null), ['*/*'])).toBe(null);
+  });
+
+  it('should accept tuples', function () {
+    const headers: [string, string][] = [
+      ['Content-Type', 'image/png'],
+      ['Content-Length', '10'],
+    ];
+    expect(typeIs(headers, ['png'])).toBe('png');
+    expect(typeIs([['Content-Type', 'image/png']], ['png'])).toBe(null);
+  });
+});
+
 describe('hasBody(req)', function () {
   describe('content-length', function () {
     it('should indicate body', function () {
@@ -171,6 +213,189 @@ describe('hasBody(req)', function () {
       expect(hasBody(headers)).toBe(true);
     });
   });
+
+  describe('Fetch API', function () {
+    it('should use headers', function () {
+      expect(hasBody(new Headers({ 'content-length': '0' }))).toBe(true);
+      expect(hasBody(new Headers())).toBe(false);
+    });
+
+    it('should use body of Request', function () {
+      expect(hasBody(new Request('http://localhost/', { method: 'POST', body: 'a' }))).toBe(true);
+      expect(hasBody(new Request('http://localhost/', { headers: { 'content-length': '1' } }))).toBe(false);
+    });
+  });
+
+  describe('HTTP/2', function () {
+    it('should use :method without content-length', function () {
+      expect(hasBody({ ':method': 'POST', 'content-type': 'application/json' })).toBe(true);
+      expect(hasBody({ ':method': 'GET', 'content-type': 'application/json' })).toBe(false);
+      expect(hasBody({ ':method': 'GET', 'content-length': '2' })).toBe(true);
+    });
+
+    it('should use the END_STREAM flag', function () {
+      const headers = { ':method': 'POST', 'content-type': 'application/json', 'content-length': '2' };
+      expect(hasBody({ headers, stream: { endAfterHeaders: true } })).toBe(false);
+      expect(typeIs({ headers, stream: { endAfterHeaders: true } }, ['json'])).toBe(null);
+      expect(typeIs({ headers, stream: { endAfterHeaders: false } }, ['json'])).toBe('json');
+    });
+
+    it('should work with an HTTP/2 server', async function () {
+      const server = http2.createServer();
+      const results: unknown[] = [];
+      server.on('stream', (stream, headers) => {
+        results.push(typeIs({ headers, stream }, ['json']));
+        stream.respond({ ':status': 200 });
+        stream.end();
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+
+      const client = http2.connect(`http://localhost:${(server.address() as AddressInfo).port}`);
+      try {
+        for (const [method, body] of [
+          ['GET', null],
+          ['POST', '{}'],
+        ]) {
+          const req = client.request({ ':method': method!, 'content-type': 'application/json' }, { endStream: !body });
+          req.end(body ?? undefined);
+          req.resume();
+          await new Promise((resolve) => req.on('close', resolve));
+        }
+      } finally {
+        client.close();
+        await new Promise((resolve) => server.close(resolve));
+      }
+
+      expect(results).toEqual([null, 'json']);
+    });
+  });
+});
+
+describe('duplicate Content-Type', function () {
+  const rawHeaders = ['Content-Type', 'text/html', 'Transfer-Encoding', 'chunked', 'content-type', 'application/json'];
+
+  it('should join values by default', function () {
+    expect(typeIs(rawHeaders, ['json', 'html'])).toBe(false);
+    expect(typeIs(createHeaders('application/json'), ['json'], { duplicates: 'reject' })).toBe('json');
+  });
+
+  it('should reject several values', function () {
+    expect(typeIs(rawHeaders, ['json', 'html'], { duplicates: 'reject' })).toBe(false);
+    expect(typeIs(createHeaders('text/html, application/json'), ['html'], { duplicates: 'reject' })).toBe(false);
+  });
+
+  it('should use the first or the last value', function () {
+    expect(typeIs(rawHeaders, ['json', 'html'], { duplicates: 'first' })).toBe('html');
+    expect(typeIs(rawHeaders, ['json', 'html'], { duplicates: 'last' })).toBe('json');
+  });
+
+  it('should require identical values', function () {
+    const identical = ['content-type', 'text/html; charset=utf-8', 'content-type', 'TEXT/HTML; charset=utf-8'];
+    const headers = { headers: { 'content-type': 'text/html', 'content-length': '1' }, rawHeaders: identical };
+    expect(typeIs(headers, ['html'], { duplicates: 'require-identical' })).toBe('html');
+    expect(typeIs(rawHeaders, ['json', 'html'], { duplicates: 'require-identical' })).toBe(false);
+  });
+
+  it('should not split quoted commas', function () {
+    const headers = createHeaders('multipart/form-data; boundary="a,b"');
+    expect(typeIs(headers, ['multipart'], { duplicates: 'reject' })).toBe('multipart');
+  });
+
+  it('should use rawHeaders and headersDistinct of a message', function () {
+    const headers = { 'content-type': 'text/html', 'transfer-encoding': 'chunked' };
+    expect(typeIs({ headers, rawHeaders }, ['html'], { duplicates: 'reject' })).toBe(false);
+    expect(typeIs({ headers }, ['html'], { duplicates: 'reject' })).toBe('html');
+
+    const headersDistinct = { 'content-type': ['text/html', 'application/json'] };
+    expect(typeIs({ headers, headersDistinct }, ['html'], { duplicates: 'reject' })).toBe(false);
+    expect(typeIs({ headers, headersDistinct }, ['json'], { duplicates: 'last' })).toBe('json');
+  });
+
+  it('should use Fetch Headers', function () {
+    const headers = new Headers([
+      ['content-type', 'text/html'],
+      ['content-type', 'application/json'],
+      ['content-length', '1'],
+    ]);
+    expect(typeIs(headers, ['json'], { duplicates: 'last' })).toBe('json');
+    expect(typeIs(headers, ['json'], { duplicates: 'reject' })).toBe(false);
+  });
+});
+
+describe('parser option', function () {
+  it('should be strict by default', function () {
+    expect(is('application/json;charset=UTF-8;', ['json'])).toBe(false);
+    expect(is('json', ['json'])).toBe(false);
+  });
+
+  it('should repair types in lenient mode', function () {
+    const repaired: unknown[] = [];
+    const options = { parser: 'lenient', onRepair: (...args: unknown[]) => repaired.push(args) } as const;
+
+    expect(is('application/json;charset=UTF-8;', ['json'], options)).toBe('json');
+    expect(is('json', ['json'], options)).toBe('json');
+    expect(typeIs(createHeaders('text/plain;'), ['text/*'], options)).toBe('text/plain');
+    expect(is('text/html', ['html'], options)).toBe('html');
+    expect(is('text/', ['*/*'], options)).toBe(false);
+    expect(repaired).toEqual([
+      ['application/json;charset=UTF-8;', ['empty-parameter']],
+      ['json', ['bare-type']],
+      ['text/plain;', ['empty-parameter']],
+    ]);
+  });
+});
+
+describe('encodings option', function () {
+  it('should match acceptable content codings', function () {
+    const headers = { ...createHeaders('application/json'), 'content-encoding': 'gzip' };
+    expect(typeIs(headers, ['json'], { encodings: ['gzip', 'identity'] })).toBe('json');
+    expect(typeIs(createHeaders('application/json'), ['json'], { encodings: ['gzip', 'identity'] })).toBe('json');
+  });
+
+  it('should not match other content codings', function () {
+    const headers = { ...createHeaders('application/json'), 'content-encoding': 'br, gzip' };
+    expect(typeIs(headers, ['json'], { encodings: ['gzip', 'identity'] })).toBe(false);
+    expect(typeIs(createHeaders('application/json'), ['json'], { encodings: ['gzip'] })).toBe(false);
+    expect(typeIs(headers, ['json'])).toBe('json');
+  });
+
+  it('should return null without body', function () {
+    const headers = { 'content-type': 'application/json', 'content-encoding': 'br' };
+    expect(typeIs(headers, ['json'], { encodings: ['gzip'] })).toBe(null);
+  });
+});
+
+describe('extended patterns', function () {
+  it('should match partial subtype wildcards', function () {
+    expect(is('application/vnd.myco.item+json', ['application/vnd.myco.*'])).toBe('application/vnd.myco.item+json');
+    expect(is('application/vnd.api+json', ['application/vnd.*+json'])).toBe('application/vnd.api+json');
+    expect(is('application/vnd.other.item', ['application/vnd.myco.*'])).toBe(false);
+  });
+
+  it('should match brace alternatives', function () {
+    expect(is('application/xml', ['application/{json,xml}'])).toBe('application/xml');
+    expect(is('text/html', ['application/{json,xml}'])).toBe(false);
+    expect(is('text/html', ['{json,html}'])).toBe('text/html');
+  });
+
+  it('should apply exclusions after a match', function () {
+    expect(is('text/html', ['text/*', '!text/html'])).toBe(false);
+    expect(is('text/plain', ['text/*', '!text/html'])).toBe('text/plain');
+    expect(is('text/html', ['!text/html', 'text/*'])).toBe(false);
+    expect(is('image/svg+xml', ['image/*', '!+xml'])).toBe(false);
+    expect(is('text/css', ['*/*', '!text/{html,xml}'])).toBe('text/css');
+    expect(typeIs(createHeaders('text/html'), ['text/*', '!html'])).toBe(false);
+  });
+
+  it('should match anything but exclusions given only exclusions', function () {
+    expect(is('application/json', ['!text/*'])).toBe('application/json');
+    expect(is('text/html', ['!text/*'])).toBe(false);
+  });
+
+  it('should not match invalid patterns', function () {
+    expect(is('text/html', ['text/{html'])).toBe(false);
+    expect(is('text/html', ['!!text/html', 'html'])).toBe('html');
+  });
 });
 
 describe('is(mediaType, types)', function () {
@@ -210,6 +435,11 @@ describe('is(mediaType, types)', function () {
     it('should return the mime type', function () {
       expect(is('image/png')).toBe('image/png');
     });
+
+    it('should keep the options', function () {
+      expect(is('image/png;', undefined, { parser: 'lenient' })).toBe('image/png');
+      expect(is('image/png;', undefined)).toBe(false);
+    });
   });
 
   describe('given one type', function () {
@@ -288,6 +518,58 @@ describe('is(mediaType, types)', function () {
       expect(is('multipart/form-data', ['multipart'])).toBe('multipart');
     });
   });
+
+  describe('given types with parameters', function () {
+    it('should match required parameters', function () {
+      expect(is('text/plain; charset=utf-8', ['text/plain; charset=utf-8'])).toBe('text/plain; charset=utf-8');
+      expect(is('text/plain; Charset="UTF-8"', ['text/*; charset=utf-8'])).toBe('text/plain; charset=UTF-8');
+      expect(is('text/plain; charset=utf-8; format=flowed', ['txt; charset=utf-8'])).toBe(
+        'text/plain; charset=utf-8; format=flowed',
+      );
+      expect(is('text/plain', ['text/plain; charset=utf-8'])).toBe(false);
+      expect(is('text/plain; charset=latin1', ['text/plain; charset=utf-8'])).toBe(false);
+    });
+
+    it('should compare other values exactly', function () {
+      const profile = 'https://www.w3.org/ns/activitystreams';
+      const pattern = `application/ld+json; profile="${profile}"`;
+      expect(is(`application/ld+json; profile="${profile}"`, [pattern])).toBe(
+        `application/ld+json; profile="${profile}"`,
+      );
+      expect(is(`application/ld+json; profile="${profile.toUpperCase()}"`, [pattern])).toBe(false);
+      expect(is('application/ld+json', [pattern, '+json'])).toBe('application/ld+json');
+    });
+
+    it('should match presence of parameters', function () {
+      expect(is('text/csv; header=present', ['text/csv; header=*'])).toBe('text/csv; header=present');
+      expect(is('text/csv', ['text/csv; header=*'])).toBe(false);
+    });
+
+    it('should not match invalid parameters', function () {
+      expect(is('text/plain; charset=utf-8', ['text/plain; charset'])).toBe(false);
+      expect(is('text/plain; charset=utf-8', ['unknown; charset=utf-8'])).toBe(false);
+    });
+  });
+
+  describe('when media type is a MediaType object', function () {
+    it('should match like a string', function () {
+      const mediaType = parseMediaType('application/vnd.api+json; charset=utf-8');
+      expect(is(mediaType)).toBe('application/vnd.api+json');
+      expect(is(mediaType, ['+json'])).toBe('application/vnd.api+json');
+      expect(is(mediaType, ['json'])).toBe(false);
+    });
+
+    it('should accept objects that are not made by parseMediaType()', function () {
+      expect(is({ type: 'text', subtype: 'html' }, ['html'], { charsets: ['utf-8'] })).toBe('html');
+      expect(
+        is({ type: 'text', subtype: 'html', parameters: { charset: 'UTF-8' } }, ['html'], { charsets: ['utf-8'] }),
+      ).toBe('html');
+      expect(is({ type: 'application', subtype: 'vnd.api+json' }, ['json'], { structuredSuffixes: true })).toBe('json');
+      expect(
+        is({ type: 'text', subtype: 'html', parameters: { charset: 'utf-8' } }, ['text/html; charset=utf-8']),
+      ).toBe('text/html; charset=utf-8');
+    });
+  });
 });
 
 describe('match(expected, actual)', function () {
@@ -327,6 +609,29 @@ describe('match(expected, actual)', function () {
     expect(mimeMatch('*/*+xml', 'text/html+xml')).toBe(true);
     expect(mimeMatch('*/*+xml', 'text/html')).toBe(false);
   });
+
+  it('should match parameters', function () {
+    expect(mimeMatch('text/html; charset=utf-8', 'text/html; charset=UTF-8')).toBe(true);
+    expect(mimeMatch('text/html; charset=utf-8', 'text/html; level=1; charset=utf-8')).toBe(true);
+    expect(mimeMatch('text/html; level=1', 'text/html; LEVEL=1')).toBe(true);
+    expect(mimeMatch('text/html; level=a', 'text/html; level=A')).toBe(false);
+    expect(mimeMatch('text/html; level=1', 'text/html')).toBe(false);
+    expect(mimeMatch('text/html', 'text/html; level=1')).toBe(true);
+  });
+
+  it('should accept MediaType objects', function () {
+    expect(mimeMatch('text/*', parseMediaType('text/html; charset=utf-8'))).toBe(true);
+    expect(mimeMatch(parseMediaType('text/html'), parseMediaType('text/html'))).toBe(true);
+    expect(mimeMatch(parseMediaType('text/html'), 'text/plain')).toBe(false);
+  });
+
+  it('should validate and rebuild MediaType objects made by hand', function () {
+    const plain = { type: 'text', subtype: 'plain', parameters: { charset: 'utf-8' } } as any;
+    expect(mimeMatch('text/plain; charset=utf-8', plain)).toBe(true);
+    expect(mimeMatch('text/plain; charset=latin1', plain)).toBe(false);
+    expect(mimeMatch('text/*', { type: 'Text', subtype: 'Plain' } as any)).toBe(true);
+    expect(mimeMatch('*/*', { type: 'te xt', subtype: 'plain' } as any)).toBe(false);
+  });
 });
 
 describe('normalize(type)', function () {
@@ -366,6 +671,12 @@ describe('normalize(type)', function () {
   it('should expand special "multipart"', function () {
     expect(normalize('multipart')).toBe('multipart/*');
   });
+
+  it('should keep parameters', function () {
+    expect(normalize('json; charset=utf-8')).toBe('application/json; charset=utf-8');
+    expect(normalize('+json; charset=utf-8')).toBe('*/*+json; charset=utf-8');
+    expect(normalize('unknown; charset=utf-8')).toBe(false);
+  });
 });
 
 function createHeaders(type?: string) {
@@ -6,9 +6,134 @@
  * MIT Licensed
  */
 
-import { IncomingHttpHeaders } from 'node:http';
-import contentType from 'content-type';
-import mime from 'mime-types';
+import { hasHttp2Body } from './body.js';
+import { isCharsetAllowed } from './charset.js';
+import { TypeDecisionEvent, isObserved, observeIs, observeTypeIs } from './diagnostics.js';
+import { unsupportedEncodings } from './encoding.js';
+import { HeadersInput, getFetchBody, getHeader, getHeaderLines, splitHeaderList } from './headers.js';
+import { multipartInfoOf } from './multipart.js';
+import {
+  LenientMediaType,
+  MediaType,
+  MediaTypeParameters,
+  MediaTypeRepair,
+  essenceOf,
+  formatMediaType,
+  isMediaType,
+  matchParameters,
+  parseEssence,
+  parseMediaType,
+  parseMediaTypeLenient,
+  toMediaType,
+} from './media-type.js';
+import { TypeRegistry, defaultRegistry } from './registry.js';
+import { isNegated, matchSubtype, returnsActual, tryExpandPattern } from './pattern.js';
+import { matchBaseFormat } from './suffix.js';
+
+/**
+ * Options for `is()`, `typeIs()` and the other functions that match media types.
+ */
+export interface TypeIsOptions {
+  /**
+   * The registry of shorthands, file extensions and aliases to use instead of the default one.
+   */
+  registry?: TypeRegistry;
+  /**
+   * The allowed charsets, e.g. `['utf-8']`. Labels are resolved with `normalizeCharset()`, so `utf8`
+   * and `UTF-8` are the same. A media type with a charset outside the list does not match, while
+   * a media type with no charset (and no default one, see `charsetOf()`) does.
+   */
+  charsets?: string[];
+  /**
+   * If `true`, a `multipart/*` media type does not match without a valid boundary, see `multipartInfo()`.
+   */
+  requireBoundary?: boolean;
+  /**
+   * If `true`, a file extension or a shorthand also matches any media type whose structured syntax suffix
+   * has the same base format, e.g. `json` matches `application/problem+json` and `xml` matches
+   * `image/svg+xml`. See `baseFormatOf()`.
+   */
+  structuredSuffixes?: boolean;
+  /**
+   * The acceptable content codings of the body, e.g. `['gzip', 'identity']`. A request with a `Content-Encoding`
+   * outside the list does not match, and neither does a body that is not encoded unless `identity` is in the list.
+   * See `contentEncodingIs()`. Ignored by `is()`, which only sees the media type.
+   */
+  encodings?: string[];
+  /**
+   * What to do when the request has more than one `Content-Type`, either as repeated fields (from
+   * `rawHeaders` or `headersDistinct` of a Node.js `IncomingMessage`) or joined with commas by a proxy:
+   *
+   * - `reject` - the request does not match;
+   * - `first` or `last` - the first or the last value is used;
+   * - `require-identical` - the request does not match unless all values are the same media type.
+   *
+   * By default, the values are joined with `, `, which is not a valid media type, unless the headers
+   * already hold one value only, like Node.js `IncomingHttpHeaders` do.
+   */
+  duplicates?: DuplicatesPolicy;
+  /**
+   * The parser of the actual media type: `strict` (the default) rejects any malformed value, while
+   * `lenient` repairs common mistakes of real-world clients, see `parseMediaTypeLenient()`.
+   */
+  parser?: 'strict' | 'lenient';
+  /**
+   * Called with the original `value` and the `repairs` each time the `lenient` parser repairs a media type.
+   */
+  onRepair?: (value: string, repairs: MediaTypeRepair[]) => void;
+  /**
+   * Called with each decision of `is()`, `typeIs()`, `typeIsDetailed()`, `bestMatch()` and the matchers
+   * of `createTypeMatcher()`, for metrics and logs. The same events are published to the `type-is:decision`
+   * channel of `node:diagnostics_channel` once `@ts-stack/type-is/diagnostics` is imported.
+   * See `createDecisionStats()`.
+   */
+  onDecision?: (event: TypeDecisionEvent) => void;
+}
+
+/**
+ * See the `duplicates` option of `TypeIsOptions`.
+ */
+export type DuplicatesPolicy = 'reject' | 'first' | 'last' | 'require-identical';
+
+/**
+ * The type of the value that `is()` and `typeIs()` return when the acceptable type `P` matches:
+ *
+ * - a file extension name or a mime type is returned as is, e.g. `'json'`;
+ * - a wildcard or a suffix is turned into a template literal type, e.g. `'application/*'`
+ *   becomes `` `application/${string}` `` and `'+json'` becomes `` `${string}/${string}+json` ``;
+ * - a type with parameters or alternatives becomes `` `${string}/${string}` ``, since the full type is returned;
+ * - an exclusion such as `'!text/html'` becomes `never`, since it is never returned.
+ */
+export type MatchedType<P extends string> = P extends `!${string}`
+  ? never
+  : P extends `${string};${string}`
+    ? `${string}/${string}`
+    : P extends `+${infer Suffix}`
+      ? `${string}/${string}+${Suffix}`
+      : P extends `${infer Type}/*+${infer Suffix}`
+        ? `${WildcardPart<Type>}/${string}+${Suffix}`
+        : P extends `${infer Type}/*`
+          ? `${WildcardPart<Type>}/${string}`
+          : P extends `*/${infer Subtype}`
+            ? `${string}/${Subtype}`
+            : P extends `${string}*${string}` | `${string}{${string}`
+              ? `${string}/${string}`
+              : P;
+
+/**
+ * The union of `MatchedType` of all `acceptable` types, or `string` if there are no acceptable types
+ * other than exclusions.
+ */
+export type MatchedTypes<T extends readonly string[]> = [Exclude<T[number], `!${string}`>] extends [never]
+  ? string
+  : MatchedType<T[number]>;
+
+type WildcardPart<T extends string> = T extends '*' ? string : T;
+
+/**
+ * Why a media type is rejected by `TypeIsOptions` regardless of the acceptable types.
+ */
+export type OptionsRejection = 'unsupported-charset' | 'invalid-boundary';
 
 /**
 Checks if the `mediaType` is one of the `acceptable`. If the `mediaType` is invalid
@@ -16,8 +141,8 @@ or does not matches any of the `acceptable`, then `false` is returned. Otherwise
 string of the type that matched is returned.
 
 The `mediaType` argument is expected to be a
-[media type](https://tools.ietf.org/html/rfc6838) string. The `acceptable` argument
-is an array of type strings.
+[media type](https://tools.ietf.org/html/rfc6838) string or a `MediaType` object
+returned by `parseMediaType()`. The `acceptable` argument is an array of type strings.
 
 Each type in the `acceptable` array can be one of the following:
 
@@ -28,6 +153,15 @@ Each type in the `acceptable` array can be one of the following:
 - A suffix such as `+json`. This can be combined with a wildcard such as
   `* /vnd+json` or `application/*+json`. The full mime type will be returned
   if matched.
+- A mime type with a partial subtype wildcard such as `application/vnd.myco.*+json`.
+  The full mime type will be returned if matched.
+- Alternatives in braces such as `application/{json,xml}` or `{json,yaml}`.
+  The full mime type will be returned if matched.
+- Any of the above followed by parameters such as `text/plain; charset=utf-8`.
+  See `mimeMatch()` for how the parameters are matched. The full mime type
+  including its parameters will be returned if matched.
+- Any of the above prefixed with `!` such as `!text/html`, to exclude the types it
+  matches regardless of the order. If there are only exclusions, any other type matches.
 
 Some examples to illustrate the inputs and returned value:
 
@@ -40,41 +174,159 @@ is(mediaType, ['application/*']); // => 'application/json'
 is(mediaType, ['application/json']); // => 'application/json'
 
 is(mediaType, ['html']); // => false
+is(mediaType, ['application/*', '!json']); // => false
 ```
  */
-export function is(actual?: any, ...acceptable: string[]): string | false;
-export function is(actual?: any, acceptable?: string[]): string | false;
-export function is(actual_?: string | null, acceptable?: string | string[]): string | false {
-  // remove parameters and normalize
-  const actual = tryNormalizeType(actual_);
+export function is<const T extends readonly string[]>(
+  actual: any,
+  acceptable: T,
+  options?: TypeIsOptions,
+): MatchedTypes<T> | false;
+export function is<const T extends readonly string[]>(actual?: any, ...acceptable: T): MatchedTypes<T> | false;
+export function is(actual?: any, acceptable?: readonly string[], options?: TypeIsOptions): string | false;
+export function is(
+  actual_?: string | MediaType | null,
+  acceptable?: string | readonly string[],
+  options?: TypeIsOptions | string,
+): string | false {
+  // support flattened arguments
+  if (typeof acceptable == 'string') {
+    const list: string[] = new Array(arguments.length - 1);
+    for (let i = 0; i < list.length; i++) {
+      // eslint-disable-next-line prefer-rest-params
+      list[i] = arguments[i + 1];
+    }
+    acceptable = list;
+    options = undefined;
+  } else if (!acceptable) {
+    acceptable = [];
+  }
+
+  const opts = (options as TypeIsOptions | undefined) || {};
+  const value = matchType(actual_, acceptable, opts);
+  if (isObserved(opts)) {
+    observeIs(actual_, acceptable, value, opts);
+  }
+  return value;
+}
+
+function matchType(
+  actual_: string | MediaType | null | undefined,
+  acceptable: readonly string[],
+  opts: TypeIsOptions,
+): string | false {
+  const registry = opts.registry || defaultRegistry;
+
+  // only the type/subtype is needed, so the parameters are not collected
+  if (typeof actual_ == 'string' && isPlain(acceptable, opts, registry)) {
+    return matchPlainType(actual_, acceptable, registry);
+  }
+
+  // parse and validate
+  let mediaType = tryParseType(actual_, opts);
 
   // no type or invalid
-  if (!actual) {
+  if (!mediaType) {
     return false;
   }
 
-  // support flattened arguments
-  if (!Array.isArray(acceptable)) {
-    acceptable = new Array(arguments.length - 1);
-    for (let i = 0; i < acceptable.length; i++) {
-      // eslint-disable-next-line prefer-rest-params
-      acceptable[i] = arguments[i + 1];
+  // resolve aliases
+  mediaType = registry.resolve(mediaType);
+
+  // rejected by options
+  if (checkOptions(mediaType, opts)) {
+    return false;
+  }
+
+  // remove parameters
+  const actual = essenceOf(mediaType);
+
+  // no types, return the content type
+  if (!acceptable.length) {
+    return actual;
+  }
+
+  // exclusions apply to any match
+  if (isExcluded(acceptable, mediaType, opts)) {
+    return false;
+  }
+
+  let type;
+  for (let i = 0; i < acceptable.length; i++) {
+    if (!isNegated((type = acceptable[i])) && matchesPattern(type, mediaType, opts)) {
+      return matchedValue(type, mediaType);
     }
   }
 
+  // only exclusions, so anything else matches
+  if (acceptable.every(isNegated)) {
+    return actual;
+  }
+
+  // no matches
+  return false;
+}
+
+/**
+ * Checks if the `acceptable` types have no parameters, even after they are normalized with the `registry`
+ * (a shorthand can stand for a type with parameters), and the `options` do not check parameters,
+ * so that the parameters of the actual type do not matter.
+ */
+function isPlain(acceptable: readonly string[], options: TypeIsOptions, registry: TypeRegistry): boolean {
+  if (options.charsets || options.requireBoundary || options.structuredSuffixes || options.parser == 'lenient') {
+    return false;
+  }
+  for (let i = 0; i < acceptable.length; i++) {
+    const pattern = acceptable[i];
+    if (typeof pattern != 'string' || pattern.indexOf(';') !== -1) {
+      return false;
+    }
+    for (const alternative of tryExpandPattern(pattern)) {
+      const normalized = registry.normalize(alternative);
+      if (normalized && normalized.indexOf(';') !== -1) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * Same as `matchType()` for plain `acceptable` types, see `isPlain()`.
+ */
+function matchPlainType(value: string, acceptable: readonly string[], registry: TypeRegistry): string | false {
+  let actual: string;
+  try {
+    actual = registry.resolveAlias(parseEssence(value));
+  } catch {
+    return false;
+  }
+
   // no types, return the content type
-  if (!acceptable || !acceptable.length) {
+  if (!acceptable.length) {
     return actual;
   }
 
+  const matches = (pattern: string) =>
+    tryExpandPattern(pattern).some((alternative) => matchTypes(registry.normalize(alternative) ?? false, actual));
+
+  // exclusions apply to any match
+  if (acceptable.some((pattern) => isNegated(pattern) && matches(pattern))) {
+    return false;
+  }
+
   let type;
   for (let i = 0; i < acceptable.length; i++) {
-    const normalized = normalize((type = acceptable[i])) ?? false;
-    if (mimeMatch(normalized, actual)) {
-      return type[0] === '+' || type.indexOf('*') !== -1 ? actual : type;
+    if (!isNegated((type = acceptable[i])) && matches(type)) {
+      return returnsActual(type) ? actual : type;
     }
   }
 
+  // only exclusions, so anything else matches
+  if (acceptable.every(isNegated)) {
+    return actual;
+  }
+
   // no matches
   return false;
 }
@@ -94,9 +346,23 @@ if (hasBody(headers)) {
 ```
  * 
  * See also http://www.w3.org/Protocols/rfc2616/rfc2616-sec4.html#sec4.3
+ *
+ * HTTP/2 headers with the `:method` pseudo-header may have no `content-length` even when there
+ * is a body, so their `:method` and the `END_STREAM` flag are also used, see `detectBody()`.
+ *
+ * This check does not validate the headers. Use `detectBody()` for the stricter
+ * RFC 9112 rules that also catch conflicting and malformed headers.
  */
-export function hasBody(headers: IncomingHttpHeaders) {
-  return headers['transfer-encoding'] !== undefined || !isNaN(headers['content-length'] as unknown as number);
+export function hasBody(headers: HeadersInput) {
+  const body = getFetchBody(headers) ?? hasHttp2Body(headers);
+  if (body !== undefined) {
+    return body;
+  }
+
+  return (
+    getHeader(headers, 'transfer-encoding') !== undefined ||
+    !isNaN(getHeader(headers, 'content-length') as unknown as number)
+  );
 }
 
 /**
@@ -116,6 +382,8 @@ export function hasBody(headers: IncomingHttpHeaders) {
  * type will be returned if matched.
  * - A suffix such as `+json`. This can be combined with a wildcard such as `* /vnd+json` or `application/*+json`. The full mime type will be returned
  * if matched.
+ * - Any of the above followed by parameters such as `text/plain; charset=utf-8`. The full mime type including
+ * its parameters will be returned if matched.
  * 
  * Some examples to illustrate the inputs and returned value:
  * 
@@ -130,27 +398,69 @@ typeIs(headers, ['application/json']) // => 'application/json'
 typeIs(headers, ['html']) // => false
 ```
  */
-export function typeIs(headers: IncomingHttpHeaders, ...acceptable: string[]): string | false | null;
-export function typeIs(headers: IncomingHttpHeaders, acceptable?: string[]): string | false | null;
-export function typeIs(headers: IncomingHttpHeaders, acceptable?: string | string[]): string | false | null {
+export function typeIs<const T extends readonly string[]>(
+  headers: HeadersInput,
+  acceptable: T,
+  options?: TypeIsOptions,
+): MatchedTypes<T> | false | null;
+export function typeIs<const T extends readonly string[]>(
+  headers: HeadersInput,
+  ...acceptable: T
+): MatchedTypes<T> | false | null;
+export function typeIs(
+  headers: HeadersInput,
+  acceptable?: readonly string[],
+  options?: TypeIsOptions,
+): string | false | null;
+export function typeIs(
+  headers: HeadersInput,
+  acceptable?: string | readonly string[],
+  options?: TypeIsOptions | string,
+): string | false | null {
+  // support flattened arguments
+  if (typeof acceptable == 'string') {
+    const list: string[] = new Array(arguments.length - 1);
+    for (let i = 0; i < list.length; i++) {
+      // eslint-disable-next-line prefer-rest-params
+      list[i] = arguments[i + 1];
+    }
+    acceptable = list;
+    options = undefined;
+  } else if (!acceptable) {
+    acceptable = [];
+  }
+
+  const opts = (options || {}) as TypeIsOptions;
+  const value = matchHeaders(headers, acceptable, opts);
+  if (isObserved(opts)) {
+    observeTypeIs(headers, acceptable, value, opts);
+  }
+  return value;
+}
+
+function matchHeaders(
+  headers: HeadersInput,
+  acceptable: readonly string[],
+  opts: TypeIsOptions,
+): string | false | null {
   // no body
   if (!hasBody(headers)) {
     return null;
   }
 
-  // support flattened arguments
-  if (!Array.isArray(acceptable)) {
-    acceptable = new Array(arguments.length - 1);
-    for (let i = 0; i < acceptable.length; i++) {
-      // eslint-disable-next-line prefer-rest-params
-      acceptable[i] = arguments[i + 1];
-    }
+  // request content coding
+  if (opts.encodings && unsupportedEncodings(headers, opts.encodings).length) {
+    return false;
   }
 
   // request content type
-  const value = headers['content-type'];
+  const value = getContentType(headers, opts);
+  if (value === false) {
+    // ambiguous content type
+    return false;
+  }
 
-  return is(value, acceptable);
+  return matchType(value, acceptable, opts);
 }
 
 /**
@@ -167,26 +477,14 @@ Normalize a `type` string. This works by performing the following:
   
   - `'multipart'` -> `'multipart/*'`
   - `'urlencoded'` -> `'application/x-www-form-urlencoded'`
- */
-export function normalize(type: string): string | false | null {
-  if (typeof type != 'string') {
-    // invalid type
-    return false;
-  }
 
-  switch (type) {
-    case 'urlencoded':
-      return 'application/x-www-form-urlencoded';
-    case 'multipart':
-      return 'multipart/*';
-  }
-
-  if (type[0] === '+') {
-    // "+json" -> "*/*+json" expando
-    return '*/*' + type;
-  }
+- Parameters after a `;` are kept as is, so `'json; charset=utf-8'` becomes
+  `'application/json; charset=utf-8'`.
 
-  return type.indexOf('/') === -1 ? mime.lookup(type) : type;
+Custom shorthands, file extensions and aliases can be used by passing a `TypeRegistry`.
+ */
+export function normalize(type: string, registry: TypeRegistry = defaultRegistry): string | false | null {
+  return registry.normalize(type);
 }
 
 /**
@@ -196,20 +494,60 @@ in the `expected` value (as `actual` should be the real media type to match). A
 suffix can still be included even with a wildcard subtype. If an input is
 malformed, `false` will be returned.
 
+Parameters of `expected` are constraints: each of them must be present in `actual`.
+Parameter names are case-insensitive, as are the values of `charset`, while other values
+are compared exactly (see [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110#section-8.3.1)).
+A value of `*` only requires the parameter to be present. Parameters of `actual` that are
+not mentioned in `expected` are ignored. Both arguments can also be a `MediaType` object, which is validated
+and rebuilt the same as by `is()`.
+
 ```js
 mimeMatch('text/html', 'text/html') // => true
 mimeMatch('* /html', 'text/html') // => true
 mimeMatch('text/*', 'text/html') // => true
 mimeMatch('* /*', 'text/html') // => true
 mimeMatch('* /*+json', 'application/x-custom+json') // => true
+mimeMatch('text/*; charset=utf-8', 'text/html; charset=UTF-8') // => true
+mimeMatch('text/csv; header=*', 'text/csv') // => false
 ```
  */
-export function mimeMatch(expected: string | false, actual: string): boolean {
+export function mimeMatch(expected: string | MediaType | false, actual: string | MediaType): boolean {
+  try {
+    // validate and rebuild MediaType objects made by hand
+    return matchTypes(
+      isMediaType(expected) ? toMediaType(expected) : expected,
+      isMediaType(actual) ? toMediaType(actual) : actual,
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Same as `mimeMatch()` for `MediaType` objects that are already validated.
+ */
+function matchTypes(expected: string | MediaType | false, actual: string | MediaType): boolean {
   // invalid type
   if (expected === false) {
     return false;
   }
 
+  // split parameters
+  const expectedType = splitParameters(expected);
+  const actualType = splitParameters(actual);
+
+  // invalid format
+  if (!expectedType || !actualType) {
+    return false;
+  }
+
+  return (
+    matchEssence(expectedType[0], actualType[0]) &&
+    (!expectedType[1] || matchParameters(expectedType[1], actualType[1]))
+  );
+}
+
+function matchEssence(expected: string, actual: string): boolean {
   // split types
   const actualParts = actual.split('/');
   const expectedParts = expected.split('/');
@@ -224,46 +562,150 @@ export function mimeMatch(expected: string | false, actual: string): boolean {
     return false;
   }
 
-  // validate suffix wildcard
-  if (expectedParts[1].slice(0, 2) === '*+') {
-    return (
-      expectedParts[1].length <= actualParts[1].length + 1 &&
-      expectedParts[1].slice(1) === actualParts[1].slice(1 - expectedParts[1].length)
-    );
+  // validate subtype, with wildcards such as "*+json" or "vnd.myco.*"
+  return matchSubtype(expectedParts[1], actualParts[1]);
+}
+
+/**
+ * Splits a type into `type/subtype` and its parameters, if any. Returns `null` if parameters cannot be parsed.
+ */
+function splitParameters(value: string | MediaType): [string, MediaTypeParameters | null] | null {
+  if (isMediaType(value)) {
+    return [essenceOf(value), value.parameters?.size ? value.parameters : null];
   }
 
-  // validate subtype
-  if (expectedParts[1] !== '*' && expectedParts[1] !== actualParts[1]) {
-    return false;
+  if (value.indexOf(';') === -1) {
+    return [value, null];
   }
 
-  return true;
+  try {
+    const mediaType = parseMediaType(value);
+    return [essenceOf(mediaType), mediaType.parameters];
+  } catch {
+    return null;
+  }
 }
 
 /**
- * Normalize a type and remove parameters.
+ * Checks the `mediaType` against the `options` that restrict its parameters.
+ * Returns the reason of the rejection, or `null` if the media type is fine.
  */
-function normalizeType(value: string): string {
-  // parse the type
-  const type = contentType.parse(value);
+export function checkOptions(mediaType: MediaType, options: TypeIsOptions): OptionsRejection | null {
+  if (options.charsets && !isCharsetAllowed(mediaType, options.charsets)) {
+    return 'unsupported-charset';
+  }
 
-  // remove the parameters
-  type.parameters = {};
+  if (options.requireBoundary && multipartInfoOf(mediaType)?.valid === false) {
+    return 'invalid-boundary';
+  }
 
-  // reformat it
-  return contentType.format(type);
+  return null;
+}
+
+/**
+ * Checks if any alternative of the acceptable `pattern` matches the `mediaType`. The leading `!` of an exclusion
+ * is ignored, and a malformed pattern does not match.
+ */
+export function matchesPattern(pattern: string, mediaType: MediaType, options: TypeIsOptions = {}): boolean {
+  const registry = options.registry || defaultRegistry;
+  return tryExpandPattern(pattern).some(
+    (alternative) =>
+      matchTypes(registry.normalize(alternative) ?? false, mediaType) ||
+      (options.structuredSuffixes && matchBaseFormat(alternative, mediaType, registry)),
+  );
+}
+
+/**
+ * Checks if any of the exclusions such as `!text/html` of the `acceptable` types matches the `mediaType`.
+ */
+export function isExcluded(acceptable: readonly string[], mediaType: MediaType, options: TypeIsOptions = {}): boolean {
+  return acceptable.some((pattern) => isNegated(pattern) && matchesPattern(pattern, mediaType, options));
+}
+
+/**
+ * Returns the value of `is()` when the acceptable `pattern` matches the `mediaType`.
+ */
+export function matchedValue(pattern: string, mediaType: MediaType): string {
+  if (pattern.indexOf(';') !== -1) {
+    // the full type with parameters, since the caller is interested in them
+    return formatMediaType(mediaType);
+  }
+  return returnsActual(pattern) ? essenceOf(mediaType) : pattern;
+}
+
+/**
+ * Returns the `Content-Type` of the `headers` according to the `duplicates` option, `undefined` if there
+ * is none, or `false` if there are several ones and the option rejects them.
+ */
+export function getContentType(headers: HeadersInput, options?: TypeIsOptions): string | false | undefined {
+  if (!options?.duplicates) {
+    return getHeader(headers, 'content-type');
+  }
+
+  const values = getContentTypes(headers);
+  if (values.length <= 1) {
+    return values[0];
+  }
+
+  switch (options.duplicates) {
+    case 'first':
+      return values[0];
+    case 'last':
+      return values[values.length - 1];
+    case 'require-identical': {
+      const types = values.map((value) => tryParseType(value));
+      const first = types[0] && formatMediaType(types[0]);
+      return first && types.every((type) => type && formatMediaType(type) === first) ? values[0] : false;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Returns all values of the `Content-Type` of the `headers`, including the ones joined with commas.
+ */
+export function getContentTypes(headers: HeadersInput): string[] {
+  return getHeaderLines(headers, 'content-type').flatMap((line) => splitHeaderList(line));
+}
+
+/**
+ * Parses the `value` with the parser of the `options`. If the `value` is invalid, a `TypeError` is thrown.
+ */
+export function parseContentType(value: string, options?: TypeIsOptions): LenientMediaType {
+  if (options?.parser != 'lenient') {
+    return { mediaType: parseMediaType(value), repairs: [] };
+  }
+
+  const registry = options.registry || defaultRegistry;
+  return parseMediaTypeLenient(value, (extension) => registry.lookup(extension));
+}
+
+/**
+ * Parse a type, or validate it if it is already parsed.
+ */
+function parseType(value: string | MediaType, options?: TypeIsOptions): MediaType {
+  if (isMediaType(value)) {
+    return toMediaType(value);
+  }
+
+  const { mediaType, repairs } = parseContentType(value, options);
+  if (repairs.length) {
+    options?.onRepair?.(value, repairs);
+  }
+  return mediaType;
 }
 
 /**
- * Try to normalize a type and remove parameters.
+ * Try to parse a type, or validate it if it is already parsed.
  */
-function tryNormalizeType(value?: string | null): string | null {
+function tryParseType(value?: string | MediaType | null, options?: TypeIsOptions): MediaType | null {
   if (!value) {
     return null;
   }
 
   try {
-    return normalizeType(value);
+    return parseType(value, options);
   } catch (err) {
     return null;
   }
@@ -0,0 +1,105 @@
+import { IncomingHttpHeaders } from 'http';
+import { MatchedType, is, typeIs } from './type-is.js';
+
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2 ? true : false;
+
+/**
+ * Fails to compile if `T` is not `true`, and checks at runtime that it was called.
+ */
+function assertType<T extends true>(value: T) {
+  expect(value).toBe(true);
+}
+
+describe('MatchedType<P>', function () {
+  it('should keep extensions and mime types', function () {
+    assertType<Equal<MatchedType<'json'>, 'json'>>(true);
+    assertType<Equal<MatchedType<'.png'>, '.png'>>(true);
+    assertType<Equal<MatchedType<'urlencoded'>, 'urlencoded'>>(true);
+    assertType<Equal<MatchedType<'multipart'>, 'multipart'>>(true);
+    assertType<Equal<MatchedType<'application/json'>, 'application/json'>>(true);
+  });
+
+  it('should map wildcards to template literals', function () {
+    assertType<Equal<MatchedType<'*/*'>, `${string}/${string}`>>(true);
+    assertType<Equal<MatchedType<'application/*'>, `application/${string}`>>(true);
+    assertType<Equal<MatchedType<'*/json'>, `${string}/json`>>(true);
+    assertType<Equal<MatchedType<'application/*+json'>, `application/${string}+json`>>(true);
+    assertType<Equal<MatchedType<'*/*+xml'>, `${string}/${string}+xml`>>(true);
+  });
+
+  it('should map suffixes to template literals', function () {
+    assertType<Equal<MatchedType<'+json'>, `${string}/${string}+json`>>(true);
+  });
+
+  it('should map types with parameters to full types', function () {
+    assertType<Equal<MatchedType<'text/plain; charset=utf-8'>, `${string}/${string}`>>(true);
+  });
+
+  it('should map extended patterns', function () {
+    assertType<Equal<MatchedType<'application/vnd.myco.*'>, `${string}/${string}`>>(true);
+    assertType<Equal<MatchedType<'application/{json,xml}'>, `${string}/${string}`>>(true);
+    assertType<Equal<MatchedType<'!text/html'>, never>>(true);
+  });
+
+  it('should keep wide strings', function () {
+    assertType<Equal<MatchedType<string>, string>>(true);
+  });
+});
+
+describe('is() and typeIs() return types', function () {
+  const headers = { 'content-type': 'application/json', 'content-length': '2' } as IncomingHttpHeaders;
+
+  it('should infer literals from an array', function () {
+    const result = typeIs(headers, ['json', 'urlencoded']);
+    assertType<Equal<typeof result, 'json' | 'urlencoded' | false | null>>(true);
+    expect(result).toBe('json');
+
+    const matched = is('text/html', ['json', 'text/*']);
+    assertType<Equal<typeof matched, 'json' | `text/${string}` | false>>(true);
+    expect(matched).toBe('text/html');
+  });
+
+  it('should infer literals from arguments', function () {
+    const result = typeIs(headers, 'json', '+json');
+    assertType<Equal<typeof result, 'json' | `${string}/${string}+json` | false | null>>(true);
+
+    const matched = is('text/html', 'html');
+    assertType<Equal<typeof matched, 'html' | false>>(true);
+  });
+
+  it('should return string without types', function () {
+    const result = typeIs(headers);
+    assertType<Equal<typeof result, string | false | null>>(true);
+
+    const matched = is('text/html');
+    assertType<Equal<typeof matched, string | false>>(true);
+  });
+
+  it('should return string for non-literal arrays', function () {
+    const acceptable: string[] = ['json'];
+    const result = typeIs(headers, acceptable);
+    assertType<Equal<typeof result, string | false | null>>(true);
+  });
+
+  it('should drop exclusions', function () {
+    const matched = is('text/plain', ['text/*', '!html']);
+    assertType<Equal<typeof matched, `text/${string}` | false>>(true);
+
+    const result = typeIs(headers, ['!html']);
+    assertType<Equal<typeof result, string | false | null>>(true);
+    expect(result).toBe('application/json');
+  });
+
+  it('should allow an exhaustive switch', function () {
+    const result = typeIs(headers, ['json', 'urlencoded']);
+    switch (result) {
+      case 'json':
+      case 'urlencoded':
+      case false:
+      case null:
+        break;
+      default:
+        assertType<Equal<typeof result, never>>(true);
+    }
+  });
+});